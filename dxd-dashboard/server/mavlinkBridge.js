@@ -0,0 +1,94 @@
+// MAVLink bridge - relays raw MAVLink from a vehicle (UDP) or a recorded .tlog to the dashboard.
+// Frames are forwarded untouched as binary WebSocket messages; decoding happens in the browser
+// (src/telemetry/mavlink.ts), so the dashboard connects with ?telemetry=live as usual.
+//
+//   npm run mavlink-bridge                              # listen on UDP 14550, serve ws://localhost:8787
+//   npm run mavlink-bridge -- --udp 14551 --port 9000
+//   npm run mavlink-bridge -- --tlog flight.tlog        # replay a log in real time, looping
+//   npm run mavlink-bridge -- --tlog flight.tlog --speed 4
+
+import { createSocket } from 'node:dgram';
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { WebSocketServer } from 'ws';
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8787' },
+    udp: { type: 'string', default: '14550' },
+    tlog: { type: 'string' },
+    speed: { type: 'string', default: '1' },
+  },
+});
+
+const MAGIC_V1 = 0xfe;
+const MAGIC_V2 = 0xfd;
+const MAX_REPLAY_GAP = 5000; // ms - long pauses in a log are shortened
+const LOOP_PAUSE = 1000;     // ms between the end of a log and its restart
+
+const server = new WebSocketServer({ port: Number(args.port) });
+
+function broadcast(data) {
+  for (const client of server.clients) {
+    if (client.readyState === client.OPEN) client.send(data, { binary: true });
+  }
+}
+
+// Dashboard commands would need MAVLink encoding to reach a real vehicle; log them for now
+server.on('connection', socket => {
+  socket.on('message', data => console.log(`command (not forwarded): ${data}`));
+});
+
+// Length of the MAVLink frame starting at offset, or 0 if the byte there isn't a frame start
+function frameLength(buffer, offset) {
+  const magic = buffer[offset];
+  if (magic === MAGIC_V2) {
+    const signed = (buffer[offset + 2] & 0x01) !== 0;
+    return 10 + buffer[offset + 1] + 2 + (signed ? 13 : 0);
+  }
+  if (magic === MAGIC_V1) return 6 + buffer[offset + 1] + 2;
+  return 0;
+}
+
+// A .tlog is a sequence of [8-byte big-endian epoch microseconds][MAVLink frame]
+function readTlog(path) {
+  const buffer = readFileSync(path);
+  const records = [];
+  let offset = 0;
+  while (offset + 8 < buffer.length) {
+    const length = frameLength(buffer, offset + 8);
+    if (length === 0 || offset + 8 + length > buffer.length) {
+      offset++; // lost sync - scan forward
+      continue;
+    }
+    records.push({
+      time: Number(buffer.readBigUInt64BE(offset) / 1000n), // ms
+      frame: buffer.subarray(offset + 8, offset + 8 + length),
+    });
+    offset += 8 + length;
+  }
+  return records;
+}
+
+if (args.tlog) {
+  const records = readTlog(args.tlog);
+  if (records.length === 0) throw new Error(`${args.tlog} has no MAVLink frames`);
+  const speed = Number(args.speed) || 1;
+
+  let index = 0;
+  const next = () => {
+    const record = records[index];
+    broadcast(record.frame);
+    index = (index + 1) % records.length;
+    const gap = index === 0 ? LOOP_PAUSE : (records[index].time - record.time) / speed;
+    setTimeout(next, Math.max(0, Math.min(gap, MAX_REPLAY_GAP)));
+  };
+  next();
+  console.log(`Replaying ${records.length} frames from ${args.tlog} at ${speed}x`);
+} else {
+  const udp = createSocket('udp4');
+  udp.on('message', datagram => broadcast(datagram));
+  udp.bind(Number(args.udp), () => console.log(`Listening for MAVLink on UDP ${args.udp}`));
+}
+
+console.log(`MAVLink bridge on ws://localhost:${args.port}`);
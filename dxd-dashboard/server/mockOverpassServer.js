@@ -0,0 +1,96 @@
+// Stand-in Overpass API server - answers any query with a fixed set of campus buildings and
+// roads, and can misbehave on demand to exercise the dashboard's mirror failover and retries.
+//
+//   npm run mock-overpass                          # http://localhost:8788/api/interpreter
+//   npm run mock-overpass -- --fail 2 --status 429 # rate-limit the first 2 requests
+//   npm run mock-overpass -- --delay 60000         # hang past the client timeout
+//   npm run mock-overpass -- --garbage             # 200 with a body that isn't Overpass JSON
+//   npm run mock-overpass -- --data export.json    # serve a saved Overpass JSON response
+//
+// Point the dashboard at it with VITE_OVERPASS_URLS=http://localhost:8788/api/interpreter,
+// optionally followed by more URLs to test failover.
+
+import { createServer } from 'node:http';
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8788' },
+    fail: { type: 'string', default: '0' },     // requests to fail before answering
+    status: { type: 'string', default: '504' }, // status for failed requests
+    delay: { type: 'string', default: '0' },    // ms before every response
+    garbage: { type: 'boolean', default: false },
+    data: { type: 'string' },
+  },
+});
+
+const METERS_PER_DEG_LAT = 111320;
+
+// A few rectangular buildings and a road across campus, as Overpass JSON elements
+function generatedElements() {
+  const buildings = [
+    { name: 'Hayden Library', lat: 33.4197, lng: -111.9341, width: 70, depth: 55, levels: 4 },
+    { name: 'Memorial Union', lat: 33.4178, lng: -111.9346, width: 65, depth: 50, levels: 3 },
+    { name: 'Old Main', lat: 33.4215, lng: -111.9347, width: 30, depth: 25, levels: 3 },
+    { name: 'Engineering Center', lat: 33.4230, lng: -111.9300, width: 60, depth: 40, levels: 5 },
+  ];
+  const elements = [];
+  let nodeId = 1;
+  buildings.forEach((b, i) => {
+    const dLat = b.depth / 2 / METERS_PER_DEG_LAT;
+    const dLng = b.width / 2 / (METERS_PER_DEG_LAT * Math.cos(b.lat * Math.PI / 180));
+    const corners = [[-dLat, -dLng], [-dLat, dLng], [dLat, dLng], [dLat, -dLng]].map(([y, x]) => {
+      elements.push({ type: 'node', id: nodeId, lat: b.lat + y, lon: b.lng + x });
+      return nodeId++;
+    });
+    elements.push({
+      type: 'way',
+      id: 1000 + i,
+      nodes: [...corners, corners[0]],
+      tags: { building: 'university', name: b.name, 'building:levels': String(b.levels) },
+    });
+  });
+  const road = [[33.4160, -111.9400], [33.4160, -111.9280]].map(([lat, lon]) => {
+    elements.push({ type: 'node', id: nodeId, lat, lon });
+    return nodeId++;
+  });
+  elements.push({ type: 'way', id: 2000, nodes: road, tags: { highway: 'secondary', name: 'University Drive' } });
+  return elements;
+}
+
+const body = args.data
+  ? readFileSync(args.data, 'utf8')
+  : JSON.stringify({ version: 0.6, generator: 'mock-overpass', elements: generatedElements() });
+
+let remainingFailures = Number(args.fail);
+let requests = 0;
+
+const server = createServer((req, res) => {
+  const n = ++requests;
+  // The dashboard posts from another origin
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.writeHead(204).end();
+    return;
+  }
+  req.resume();
+  req.on('end', () => {
+    setTimeout(() => {
+      if (res.destroyed) return;
+      if (remainingFailures > 0) {
+        remainingFailures--;
+        console.log(`#${n} ${req.method} ${req.url} -> ${args.status}`);
+        res.writeHead(Number(args.status), { 'Content-Type': 'text/plain' }).end('Mock Overpass failure');
+        return;
+      }
+      console.log(`#${n} ${req.method} ${req.url} -> 200${args.garbage ? ' (garbage)' : ''}`);
+      res.writeHead(200, { 'Content-Type': 'application/json' }).end(args.garbage ? '<html>not json' : body);
+    }, Number(args.delay));
+  });
+});
+
+server.listen(Number(args.port), () => {
+  console.log(`Mock Overpass on http://localhost:${args.port}/api/interpreter`);
+});
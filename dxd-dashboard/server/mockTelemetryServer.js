@@ -0,0 +1,206 @@
+// Mock drone telemetry server - speaks the protocol in src/telemetry/protocol.ts
+//
+//   npm run mock-server                         # simulate 4 drones on ws://localhost:8787
+//   npm run mock-server -- --drones 6 --port 9000
+//   npm run mock-server -- --replay flight.jsonl # loop a recorded feed (one message per line)
+//
+// Simulated drones orbit patrol circles around campus. A `dispatch` command flies the drone
+// to the target and holds there; `return` sends it back to its orbit.
+
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { WebSocketServer } from 'ws';
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8787' },
+    drones: { type: 'string', default: '4' },
+    replay: { type: 'string' },
+  },
+});
+
+const TICK_MS = 100;             // 10 Hz position and attitude
+const BATTERY_EVERY = 10;        // ticks between battery reports
+const STATUS_EVERY = 20;         // ticks between status reports (also sent on change)
+const CRUISE_SPEED = 12;         // m/s on patrol
+const RESPOND_SPEED = 18;        // m/s when dispatched
+const CLIMB_RATE = 3;            // m/s
+const PATROL_ALTITUDE = 45;      // m
+const DRAIN_PER_SECOND = 0.03;   // percent
+const METERS_PER_DEG_LAT = 111320;
+
+// Orbit centers spread over the ASU Tempe campus
+const ORBITS = [
+  { lat: 33.4250, lng: -111.9310, radius: 120, sector: 'Libraries' },
+  { lat: 33.4190, lng: -111.9290, radius: 90, sector: 'Engineering' },
+  { lat: 33.4262, lng: -111.9360, radius: 150, sector: 'Stadium District' },
+  { lat: 33.4165, lng: -111.9340, radius: 100, sector: 'Central Campus' },
+  { lat: 33.4150, lng: -111.9395, radius: 80, sector: 'Gammage' },
+  { lat: 33.4230, lng: -111.9400, radius: 110, sector: 'West Campus' },
+];
+const NAMES = ['Alpha', 'Bravo', 'Charlie', 'Delta', 'Echo', 'Foxtrot', 'Golf', 'Hotel'];
+
+const metersPerDegLng = (lat) => METERS_PER_DEG_LAT * Math.cos(lat * Math.PI / 180);
+
+function createDrone(index) {
+  const orbit = ORBITS[index % ORBITS.length];
+  return {
+    id: `LIVE-${String(index + 1).padStart(3, '0')}`,
+    name: NAMES[index % NAMES.length],
+    orbit,
+    angle: (index * Math.PI) / 3,
+    lat: orbit.lat,
+    lng: orbit.lng + orbit.radius / metersPerDegLng(orbit.lat),
+    alt: PATROL_ALTITUDE,
+    heading: 0,
+    speed: CRUISE_SPEED,
+    battery: 100 - index * 7,
+    status: 'patrolling',
+    target: null, // { lat, lng, alt } while dispatched or returning
+  };
+}
+
+// Move toward a target at a ground speed; returns true on arrival
+function flyToward(drone, target, speed, dt) {
+  const dy = (target.lat - drone.lat) * METERS_PER_DEG_LAT;
+  const dx = (target.lng - drone.lng) * metersPerDegLng(drone.lat);
+  const distance = Math.hypot(dx, dy);
+  const step = speed * dt;
+
+  const climb = Math.max(-CLIMB_RATE * dt, Math.min(CLIMB_RATE * dt, target.alt - drone.alt));
+  drone.alt += climb;
+
+  if (distance <= step) {
+    drone.lat = target.lat;
+    drone.lng = target.lng;
+    return Math.abs(target.alt - drone.alt) < 0.5;
+  }
+  drone.lat += (dy / distance) * step / METERS_PER_DEG_LAT;
+  drone.lng += (dx / distance) * step / metersPerDegLng(drone.lat);
+  drone.heading = (Math.atan2(dx, dy) * 180) / Math.PI;
+  return false;
+}
+
+function orbitPoint(drone) {
+  const { orbit } = drone;
+  return {
+    lat: orbit.lat + (Math.sin(drone.angle) * orbit.radius) / METERS_PER_DEG_LAT,
+    lng: orbit.lng + (Math.cos(drone.angle) * orbit.radius) / metersPerDegLng(orbit.lat),
+    alt: PATROL_ALTITUDE,
+  };
+}
+
+function stepDrone(drone, dt) {
+  drone.battery = Math.max(0, drone.battery - DRAIN_PER_SECOND * dt);
+
+  if (drone.status === 'responding') {
+    drone.speed = flyToward(drone, drone.target, RESPOND_SPEED, dt) ? 0 : RESPOND_SPEED;
+    return;
+  }
+  if (drone.status === 'returning') {
+    drone.speed = RESPOND_SPEED;
+    if (flyToward(drone, orbitPoint(drone), RESPOND_SPEED, dt)) {
+      drone.status = 'patrolling';
+      drone.statusChanged = true;
+    }
+    return;
+  }
+
+  // Patrol - advance around the orbit at cruise speed
+  drone.angle += (CRUISE_SPEED * dt) / drone.orbit.radius;
+  drone.speed = CRUISE_SPEED;
+  const point = orbitPoint(drone);
+  drone.heading = (Math.atan2(-Math.sin(drone.angle), Math.cos(drone.angle)) * 180) / Math.PI; // counter-clockwise
+  drone.lat = point.lat;
+  drone.lng = point.lng;
+  drone.alt = point.alt;
+}
+
+function messagesFor(drone, tick, timestamp) {
+  const messages = [
+    { type: 'position', droneId: drone.id, timestamp, lat: drone.lat, lng: drone.lng, alt: drone.alt, groundSpeed: drone.speed },
+    { type: 'attitude', droneId: drone.id, timestamp, roll: 0, pitch: drone.speed > 0 ? -5 : 0, yaw: drone.heading },
+  ];
+  if (tick % BATTERY_EVERY === 0) {
+    messages.push({ type: 'battery', droneId: drone.id, timestamp, percent: drone.battery });
+  }
+  if (tick % STATUS_EVERY === 0 || drone.statusChanged) {
+    messages.push({ type: 'status', droneId: drone.id, timestamp, status: drone.status, name: drone.name, sector: drone.orbit.sector });
+    drone.statusChanged = false;
+  }
+  return messages;
+}
+
+function handleCommand(drones, raw) {
+  let command;
+  try {
+    command = JSON.parse(raw);
+  } catch {
+    return;
+  }
+  // Anything a client sends is untrusted - a bad frame is ignored, never thrown
+  if (typeof command !== 'object' || command === null) return;
+  const drone = drones.find(d => d.id === command.droneId);
+  if (!drone) return;
+
+  if (command.type === 'dispatch') {
+    if (![command.lat, command.lng, command.alt].every(Number.isFinite)) {
+      console.log(`${drone.id} dispatch ignored - lat, lng and alt must be numbers`);
+      return;
+    }
+    drone.target = { lat: command.lat, lng: command.lng, alt: command.alt };
+    drone.status = 'responding';
+    drone.statusChanged = true;
+    console.log(`${drone.id} dispatched to ${command.lat.toFixed(5)}, ${command.lng.toFixed(5)}`);
+  } else if (command.type === 'return') {
+    drone.target = null;
+    drone.status = 'returning';
+    drone.statusChanged = true;
+    console.log(`${drone.id} returning to patrol`);
+  }
+}
+
+const server = new WebSocketServer({ port: Number(args.port) });
+
+function broadcast(messages) {
+  for (const client of server.clients) {
+    if (client.readyState !== client.OPEN) continue;
+    for (const message of messages) client.send(JSON.stringify(message));
+  }
+}
+
+if (args.replay) {
+  // Replay - loop the recorded messages with their original spacing, restamped to now
+  const recorded = readFileSync(args.replay, 'utf8')
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line));
+  if (recorded.length === 0) throw new Error(`${args.replay} has no messages`);
+
+  let index = 0;
+  const next = () => {
+    const message = recorded[index];
+    broadcast([{ ...message, timestamp: Date.now() }]);
+    index = (index + 1) % recorded.length;
+    const gap = index === 0 ? TICK_MS : recorded[index].timestamp - message.timestamp;
+    setTimeout(next, Math.max(0, Math.min(gap, 5000)));
+  };
+  next();
+  console.log(`Replaying ${recorded.length} messages from ${args.replay}`);
+} else {
+  const drones = Array.from({ length: Number(args.drones) }, (_, i) => createDrone(i));
+  server.on('connection', socket => {
+    socket.on('message', data => handleCommand(drones, data.toString()));
+  });
+
+  let tick = 0;
+  setInterval(() => {
+    const timestamp = Date.now();
+    drones.forEach(drone => stepDrone(drone, TICK_MS / 1000));
+    broadcast(drones.flatMap(drone => messagesFor(drone, tick, timestamp)));
+    tick++;
+  }, TICK_MS);
+  console.log(`Simulating ${drones.length} drones`);
+}
+
+console.log(`Mock telemetry on ws://localhost:${args.port}`);
@@ -1,351 +1,143 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState } from 'react';
 import DroneScene3D from './components/DroneScene3D';
 import StatusPanel from './components/StatusPanel';
 import ActivityLog from './components/ActivityLog';
 import MetricsBar from './components/MetricsBar';
-import type { Drone, Alert, LogEntry } from './data/mockData';
-import { initialDrones, generateAlert } from './data/mockData';
-import { initialSentryTowers } from './data/sentryTowers';
+import SessionControls from './components/SessionControls';
+import ReplayControls from './components/ReplayControls';
+import IncidentHistory from './components/IncidentHistory';
+import { useSimulation } from './hooks/useSimulation';
+import { useBuildings } from './hooks/useBuildings';
+import { useLiveTelemetry } from './hooks/useLiveTelemetry';
+import { useFleetCommands } from './hooks/useFleetCommands';
+import { useReplay } from './hooks/useReplay';
+import { useDispatchRankings } from './hooks/useDispatchRankings';
+import { useIncidentArchive } from './hooks/useIncidentArchive';
+import { incidentQueue, simDate } from './sim/engine';
+import type { DispatchSettings, SimOptions } from './sim/engine';
+import { isAwaitingDispatch } from './sim/incidentLifecycle';
+import type { IncidentStatus } from './sim/incidentLifecycle';
+import { incidentTarget, towersInRange } from './sim/sensorFusion';
 import type { SentryTower } from './data/sentryTowers';
 
-interface Metrics {
-  activeDrones: number;
-  totalDrones: number;
-  avgResponseTime: number;
-  responseTimes: number[];
-  alertsToday: number;
-}
-
 // Build version for debugging deployments
 const BUILD_VERSION = 'v3.0.0-' + new Date().toISOString().slice(0, 10);
 
-function App() {
-  // State for drones and alert
-  const [drones, setDrones] = useState<Drone[]>(initialDrones);
-  const [alert, setAlert] = useState<Alert | null>(null);
-  const [respondingDroneId, setRespondingDroneId] = useState<string | null>(null);
-  const [logEntries, setLogEntries] = useState<LogEntry[]>([]);
-  const [droneArrived, setDroneArrived] = useState(false);
-  const [alertResolved, setAlertResolved] = useState(false);
-  const [dispatchStatus, setDispatchStatus] = useState<'idle' | 'en_route' | 'on_scene'>('idle');
-  const [metrics, setMetrics] = useState<Metrics>({
-    activeDrones: initialDrones.filter(d => d.status !== 'idle').length,
-    totalDrones: initialDrones.length,
-    avgResponseTime: -1, // -1 indicates no responses yet
-    responseTimes: [],
-    alertsToday: Math.floor(Math.random() * 3) + 4, // Start with random 4-6
-  });
-  const [responseTimeFlash, setResponseTimeFlash] = useState(false);
-  const dispatchStartTime = useRef<number | null>(null);
-
-  // Sentry tower state
-  const [sentryTowers, setSentryTowers] = useState<SentryTower[]>(initialSentryTowers);
-
-  // Drone patrol configurations - 2 patrolling, 2 idle (landed on buildings)
-  // Patrol areas spread across campus: North (Stadium) and South (Gammage)
-  const droneConfigs: Record<string, {
-    mode: 'patrol' | 'idle';
-    centerLat?: number;
-    centerLng?: number;
-    radius?: number;
-    speed?: number;
-    offset?: number;
-    lat?: number;
-    lng?: number;
-  }> = {
-    'DXD-001': {
-      mode: 'patrol',
-      // North patrol - Stadium/Athletic district
-      centerLat: 33.4252,
-      centerLng: -111.9330,
-      radius: 0.0015,
-      speed: 0.08,
-      offset: 0,
-    },
-    'DXD-002': {
-      mode: 'idle',
-      // Landing pad: Fulton Center rooftop
-      lat: 33.4215,
-      lng: -111.9285,
-    },
-    'DXD-003': {
-      mode: 'patrol',
-      // South patrol - Gammage/Arts district
-      centerLat: 33.4155,
-      centerLng: -111.9380,
-      radius: 0.0012,
-      speed: 0.1,
-      offset: Math.PI,
-    },
-    'DXD-004': {
-      mode: 'idle',
-      // Landing pad: Memorial Union rooftop
-      lat: 33.4178,
-      lng: -111.9361,
-    },
-  };
-
-  // Add log entry helper
-  const addLogEntry = useCallback((type: LogEntry['type'], message: string) => {
-    const entry: LogEntry = {
-      id: `log-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
-      timestamp: new Date(),
-      type,
-      message,
-    };
-    setLogEntries(prev => [...prev, entry]);
-  }, []);
-
-  // Check if alert is within any tower's detection radius
-  const checkTowerDetection = useCallback((alertData: Alert) => {
-    const detectingTower = sentryTowers.find(tower => {
-      const latDiff = (tower.position.lat - alertData.lat) * 111000;
-      const lngDiff = (tower.position.lng - alertData.lng) * 111000 * Math.cos(tower.position.lat * Math.PI / 180);
-      const distance = Math.sqrt(latDiff * latDiff + lngDiff * lngDiff);
-      return distance <= tower.detectionRadius;
-    });
-
-    if (detectingTower) {
-      // Update tower status to alert
-      setSentryTowers(prev => prev.map(t =>
-        t.id === detectingTower.id
-          ? { ...t, status: 'alert' as const }
-          : t
-      ));
-
-      // Log the detection
-      addLogEntry('alert', `${detectingTower.name} detected threat!`);
-      return detectingTower;
-    }
-
-    return null;
-  }, [sentryTowers, addLogEntry]);
-
-  // System online log on mount
-  useEffect(() => {
-    const activeDrones = initialDrones.filter(d => d.status !== 'idle').length;
-    const activeTowers = initialSentryTowers.filter(t => t.status === 'active').length;
-    addLogEntry('system', `System online - ${activeDrones} drones, ${activeTowers} towers active`);
-  }, [addLogEntry]);
-
-  // Single alert generation - only when no current alert
-  useEffect(() => {
-    if (alert !== null) return; // Don't generate if alert exists
-
-    const delay = alertResolved ? 8000 : 5000; // Longer delay after resolution
-    const timer = setTimeout(() => {
-      const newAlert = generateAlert();
-      setAlert(newAlert);
-      setAlertResolved(false);
-      addLogEntry('alert', `⚠ ALERT: ${newAlert.type.replace(/_/g, ' ')} - ${newAlert.locationName}`);
-      setMetrics(prev => ({ ...prev, alertsToday: prev.alertsToday + 1 }));
-
-      // Check tower detection for the new alert
-      checkTowerDetection(newAlert);
-    }, delay);
-
-    return () => clearTimeout(timer);
-  }, [alert, alertResolved, addLogEntry, checkTowerDetection]);
-
-  // Reset tower status when alert is resolved
-  useEffect(() => {
-    if (!alert) {
-      setSentryTowers(prev => prev.map(t => ({ ...t, status: 'active' as const })));
-    }
-  }, [alert]);
-
-  // Patrol logging every 10 seconds
-  useEffect(() => {
-    const patrolLogInterval = setInterval(() => {
-      setDrones(currentDrones => {
-        const patrollingDrones = currentDrones.filter(d => d.status === 'patrolling');
-        if (patrollingDrones.length > 0) {
-          // Pick a random patrolling drone to log
-          const drone = patrollingDrones[Math.floor(Math.random() * patrollingDrones.length)];
-          addLogEntry('patrol', `${drone.id} patrolling - ${drone.sector}`);
-        }
-        return currentDrones;
-      });
-    }, 10000);
-
-    return () => clearInterval(patrolLogInterval);
-  }, [addLogEntry]);
-
-  // Drone movement simulation
-  useEffect(() => {
-    const interval = setInterval(() => {
-      const time = Date.now() / 1000;
-
-      setDrones(prevDrones =>
-        prevDrones.map(drone => {
-          // If this drone is responding to an alert
-          if (drone.status === 'responding' && alert) {
-            const targetLat = alert.lat;
-            const targetLng = alert.lng;
-
-            // Calculate direction to target
-            const dLat = targetLat - drone.lat;
-            const dLng = targetLng - drone.lng;
-            const distance = Math.sqrt(dLat * dLat + dLng * dLng);
-
-            // If arrived at target
-            if (distance < 0.0002) {
-              // Log arrival only once
-              if (!droneArrived) {
-                setDroneArrived(true);
-                setDispatchStatus('on_scene');
-                setTimeout(() => {
-                  addLogEntry('arrival', `${drone.id} on scene at ${alert.locationName} - investigating`);
-                }, 0);
-
-                // Calculate response time
-                if (dispatchStartTime.current) {
-                  const responseTime = Math.round((Date.now() - dispatchStartTime.current) / 1000);
-                  setMetrics(prev => {
-                    const newTimes = [...prev.responseTimes, responseTime];
-                    const avgTime = Math.round(newTimes.reduce((a, b) => a + b, 0) / newTimes.length);
-                    return {
-                      ...prev,
-                      responseTimes: newTimes,
-                      avgResponseTime: avgTime,
-                    };
-                  });
-                  // Flash the response time
-                  setResponseTimeFlash(true);
-                  setTimeout(() => setResponseTimeFlash(false), 1000);
-                  dispatchStartTime.current = null;
-                }
-
-                // Clear alert after drone arrives (with small delay)
-                setTimeout(() => {
-                  setAlert(null);
-                  setAlertResolved(true);
-                  setRespondingDroneId(null);
-                  setDispatchStatus('idle');
-                  setDroneArrived(false);
-                  // Return drone to patrolling
-                  setDrones(prev => prev.map(d =>
-                    d.id === drone.id ? { ...d, status: 'returning' as const, speed: 15 } : d
-                  ));
-                }, 2000);
-              }
-              return {
-                ...drone,
-                lat: targetLat,
-                lng: targetLng,
-                speed: 0,
-              };
-            }
-
-            // Move towards target
-            const speed = 0.0003; // Units per tick
-            const ratio = speed / distance;
-
-            return {
-              ...drone,
-              lat: drone.lat + dLat * ratio,
-              lng: drone.lng + dLng * ratio,
-              speed: 25,
-              heading: Math.atan2(dLng, dLat) * (180 / Math.PI),
-            };
-          }
-
-          // If drone is idle, don't move
-          if (drone.status === 'idle') {
-            return drone;
-          }
-
-          // Get drone config
-          const config = droneConfigs[drone.id];
-          if (!config) return drone;
-
-          // If drone is returning to patrol position
-          if (drone.status === 'returning') {
-            const targetLat = config.mode === 'patrol' ? config.centerLat! : config.lat!;
-            const targetLng = config.mode === 'patrol' ? config.centerLng! : config.lng!;
-            const dLat = targetLat - drone.lat;
-            const dLng = targetLng - drone.lng;
-            const distance = Math.sqrt(dLat * dLat + dLng * dLng);
-
-            if (distance < 0.0002) {
-              return {
-                ...drone,
-                lat: targetLat,
-                lng: targetLng,
-                status: config.mode === 'patrol' ? 'patrolling' as const : 'idle' as const,
-                speed: config.mode === 'patrol' ? 12 : 0,
-              };
-            }
+const params = new URLSearchParams(window.location.search);
+
+// Drone source - ?telemetry=live (or ?telemetry=ws://host:port) shows real aircraft from a
+// WebSocket feed instead of the built-in simulator. `npm run mock-server` provides a test feed.
+const DEFAULT_TELEMETRY_URL: string = import.meta.env.VITE_TELEMETRY_URL ?? 'ws://localhost:8787';
+const telemetryParam = params.get('telemetry');
+const TELEMETRY_URL = telemetryParam === 'live'
+  ? DEFAULT_TELEMETRY_URL
+  : telemetryParam?.startsWith('ws') ? telemetryParam : null;
+
+// Simulation seed - pass ?seed=<n> to reproduce a run exactly
+const SIM_OPTIONS: SimOptions = {
+  seed: Number(params.get('seed')) || Date.now() % 1000000,
+  startTime: Date.now(),
+  flightControl: TELEMETRY_URL ? 'external' : 'sim',
+};
+
+// Operator name recorded on every incident transition they make - ?operator=<name>
+const OPERATOR = params.get('operator') || 'operator';
+
+// Reload with the other drone source - engine state isn't carried across
+function switchDroneSource() {
+  const next = new URLSearchParams(window.location.search);
+  if (TELEMETRY_URL) {
+    next.delete('telemetry');
+  } else {
+    next.set('telemetry', 'live');
+  }
+  window.location.search = next.toString();
+}
 
-            const speed = 0.0002;
-            const ratio = speed / distance;
+const connectionColors = {
+  open: '#22c55e',       // green
+  connecting: '#f59e0b', // amber
+  closed: '#dc2626',     // red
+};
 
-            return {
-              ...drone,
-              lat: drone.lat + dLat * ratio,
-              lng: drone.lng + dLng * ratio,
-              speed: 15,
-            };
-          }
+function App() {
+  // Campus geometry - rendered by the scene and used by the simulation for routing
+  const campus = useBuildings();
 
-          // Idle drones stay in place
-          if (config.mode === 'idle') {
-            return {
-              ...drone,
-              status: 'idle' as const,
-              lat: config.lat!,
-              lng: config.lng!,
-              speed: 0,
-            };
-          }
+  // Live aircraft, when a telemetry feed is selected
+  const live = useLiveTelemetry(TELEMETRY_URL);
 
-          // Patrolling drones - slow circular pattern
-          const angle = (time * config.speed! + config.offset!) % (Math.PI * 2);
-          return {
-            ...drone,
-            status: 'patrolling' as const,
-            lat: config.centerLat! + Math.sin(angle) * config.radius!,
-            lng: config.centerLng! + Math.cos(angle) * config.radius!,
-            heading: (angle * 180 / Math.PI) % 360,
-            speed: 12,
-            battery: Math.max(20, drone.battery - 0.001),
-          };
-        })
-      );
-    }, 50); // 20fps for smooth movement
+  // All fleet behavior lives in the simulation engine; the UI only subscribes
+  const { state: liveState, dispatch, setIncidentStatus, holdAutoDispatch, configureDispatch, lockTowerPan, setSentryTowers, setTowerMaintenance, getRecording } = useSimulation(
+    SIM_OPTIONS,
+    campus.buildings,
+    TELEMETRY_URL ? live.drones : null,
+  );
 
-    return () => clearInterval(interval);
-  }, [alert, droneArrived, addLogEntry]);
+  // Forward dispatches and recalls to live aircraft
+  useFleetCommands(liveState.incidents, TELEMETRY_URL ? live.send : null, live.connection);
+  const incidentArchive = useIncidentArchive(liveState);
+
+  // After-action review - while a recording is loaded the panels show it instead of the
+  // live session, which keeps running (and recording) underneath
+  const replay = useReplay();
+  const replaying = replay.active;
+  const state = replay.state ?? liveState;
+  const { drones, incidents, logEntries, metrics, sentryTowers, routes, obstacles } = state;
+
+  // Incident the operator is working - drone clicks and manual dispatch target it
+  const [selectedAlertId, setSelectedAlertId] = useState<string | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const queue = incidentQueue(incidents);
+  const pendingIncidents = queue.filter(i => isAwaitingDispatch(i.status));
+  const selectedIncident =
+    queue.find(i => i.alert.id === selectedAlertId) ?? pendingIncidents[0] ?? queue[0] ?? null;
+
+  // Advisor rankings for the incident cards and the scene's recommended-drone highlight
+  const dispatchRankings = useDispatchRankings(
+    drones,
+    queue.filter(i => isAwaitingDispatch(i.status) || i === selectedIncident),
+    obstacles,
+  );
 
-  // Handle dispatch - supports both nearest and specific drone
-  const handleDispatch = (droneId: string, isManual: boolean = false) => {
-    const drone = drones.find(d => d.id === droneId);
+  // Flash the response time for a second after each arrival
+  const responseTimeFlash = metrics.lastResponseAt !== null && state.time - metrics.lastResponseAt < 1;
 
-    if (drone && alert) {
-      if (isManual) {
-        addLogEntry('dispatch', `${drone.id} manually dispatched to ${alert.locationName}`);
-      } else {
-        addLogEntry('dispatch', `${drone.id} dispatched to ${alert.locationName}`);
-      }
+  // Handle dispatch - supports both nearest and specific drone. Recordings are read-only.
+  const handleDispatch = (alertId: string, droneId: string, isManual: boolean = false) => {
+    if (!replaying) dispatch(alertId, droneId, isManual, OPERATOR);
+  };
+  const handleSetIncidentStatus = (alertId: string, status: IncidentStatus, note: string) => {
+    if (!replaying) setIncidentStatus(alertId, status, OPERATOR, note);
+  };
+  const handleHoldAutoDispatch = (alertId: string) => {
+    if (!replaying) holdAutoDispatch(alertId);
+  };
+  const handleConfigureDispatch = (settings: Partial<DispatchSettings>) => {
+    if (!replaying) configureDispatch(settings);
+  };
+  // Point every tower camera that can reach an incident at it
+  const handleSlewTowers = (alertId: string) => {
+    const incident = incidents.find(i => i.alert.id === alertId);
+    if (replaying || !incident) return;
+    const target = incidentTarget(incident);
+    towersInRange(sentryTowers, target).forEach(tower => lockTowerPan(tower.id, target, OPERATOR));
+  };
+  const handleAcceptTowers = (towers: SentryTower[]) => {
+    if (!replaying) setSentryTowers(towers, OPERATOR);
+  };
+  const handleTowerMaintenance = (towerId: string, maintenance: boolean) => {
+    if (!replaying) setTowerMaintenance(towerId, maintenance, OPERATOR);
+  };
+  // Clicking a tower releases its camera, or locks it onto the selected incident
+  const handleTowerClick = (towerId: string) => {
+    const tower = sentryTowers.find(t => t.id === towerId);
+    if (replaying || !tower) return;
+    if (tower.panLock) {
+      lockTowerPan(towerId, null, OPERATOR);
+    } else if (selectedIncident) {
+      lockTowerPan(towerId, incidentTarget(selectedIncident), OPERATOR);
     }
-
-    setRespondingDroneId(droneId);
-    setDispatchStatus('en_route');
-    setDroneArrived(false);
-    dispatchStartTime.current = Date.now();
-
-    setDrones(prevDrones =>
-      prevDrones.map(drone => {
-        if (drone.id === droneId) {
-          return {
-            ...drone,
-            status: 'responding' as const,
-            speed: 25,
-          };
-        }
-        return drone;
-      })
-    );
   };
 
   return (
@@ -361,30 +153,50 @@ function App() {
           <div className="absolute top-0 left-0 right-0 z-[1000] bg-gradient-to-b from-[#0a0a12] to-transparent p-2 lg:p-4 pointer-events-none">
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2 pointer-events-auto">
-                <div className="flex items-center gap-2 bg-[#1a1a2e]/90 backdrop-blur px-3 py-1.5 lg:px-4 lg:py-2 rounded-lg border border-gray-800">
-                  <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse" />
-                  <span className="text-green-400 text-xs lg:text-sm font-medium">LIVE</span>
-                </div>
+                <button
+                  onClick={switchDroneSource}
+                  title={TELEMETRY_URL ? `Live feed ${TELEMETRY_URL} (${live.connection}) - switch to simulator` : 'Simulated fleet - switch to live telemetry'}
+                  className="flex items-center gap-2 bg-[#1a1a2e]/90 backdrop-blur px-3 py-1.5 lg:px-4 lg:py-2 rounded-lg border border-gray-800 hover:border-gray-600"
+                >
+                  <div
+                    className="w-2 h-2 rounded-full animate-pulse"
+                    style={{ backgroundColor: TELEMETRY_URL ? connectionColors[live.connection] : '#3b82f6' }}
+                  />
+                  <span className="text-xs lg:text-sm font-medium" style={{ color: TELEMETRY_URL ? connectionColors[live.connection] : '#60a5fa' }}>
+                    {TELEMETRY_URL ? (live.connection === 'open' ? 'LIVE' : live.connection.toUpperCase()) : 'SIM'}
+                  </span>
+                </button>
                 <div className="hidden sm:block bg-[#1a1a2e]/90 backdrop-blur px-3 py-1.5 lg:px-4 lg:py-2 rounded-lg border border-gray-800">
                   <span className="text-gray-400 text-xs lg:text-sm">
                     {drones.filter(d => d.status === 'patrolling').length} Patrolling |{' '}
                     {drones.filter(d => d.status === 'responding').length} Responding |{' '}
                     {drones.filter(d => d.status === 'idle').length} Idle
+                    {drones.some(d => d.status === 'sentry') && ` | ${drones.filter(d => d.status === 'sentry').length} Sentry`}
                   </span>
                 </div>
               </div>
 
-              <div className="bg-[#1a1a2e]/90 backdrop-blur px-3 py-1.5 lg:px-4 lg:py-2 rounded-lg border border-gray-800 pointer-events-auto">
-                <span className="text-gray-400 text-xs lg:text-sm">
-                  {new Date().toLocaleTimeString()}
-                </span>
-                <span className="hidden sm:inline text-gray-600 text-xs ml-2">{BUILD_VERSION}</span>
+              <div className="flex items-center gap-2 pointer-events-auto">
+                <button
+                  onClick={() => setHistoryOpen(true)}
+                  title="Closed incidents"
+                  className="bg-[#1a1a2e]/90 backdrop-blur px-3 py-1.5 lg:px-4 lg:py-2 rounded-lg border border-gray-800 hover:border-gray-600 text-gray-300 hover:text-white text-xs lg:text-sm font-medium"
+                >
+                  HISTORY ({state.closedIncidents.length})
+                </button>
+                <SessionControls replaying={replaying} getRecording={getRecording} onReplay={replay.load} />
+                <div className="bg-[#1a1a2e]/90 backdrop-blur px-3 py-1.5 lg:px-4 lg:py-2 rounded-lg border border-gray-800">
+                  <span className="text-gray-400 text-xs lg:text-sm">
+                    {(replaying ? simDate(state) : new Date()).toLocaleTimeString()}
+                  </span>
+                  <span className="hidden sm:inline text-gray-600 text-xs ml-2">{BUILD_VERSION} · seed {state.seed}</span>
+                </div>
               </div>
             </div>
           </div>
 
           {/* Alert Banner - Responsive */}
-          {alert && !respondingDroneId && (
+          {pendingIncidents.length > 0 && (
             <div className="absolute top-14 lg:top-20 left-1/2 -translate-x-1/2 z-[1000] animate-pulse w-[90%] sm:w-auto">
               <div className="bg-red-600/90 backdrop-blur text-white px-4 py-2 lg:px-6 lg:py-3 rounded-lg shadow-lg shadow-red-600/30 border border-red-500">
                 <div className="flex items-center gap-2 lg:gap-3">
@@ -392,8 +204,11 @@ function App() {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
                   </svg>
                   <div className="min-w-0">
-                    <div className="font-bold text-xs lg:text-sm truncate">{alert.type.replace(/_/g, ' ').toUpperCase()}</div>
-                    <div className="text-red-200 text-xs truncate">{alert.locationName} - Dispatch drone</div>
+                    <div className="font-bold text-xs lg:text-sm truncate">
+                      {pendingIncidents[0].alert.type.replace(/_/g, ' ').toUpperCase()}
+                      {pendingIncidents.length > 1 && ` +${pendingIncidents.length - 1} MORE`}
+                    </div>
+                    <div className="text-red-200 text-xs truncate">{pendingIncidents[0].alert.locationName} - {pendingIncidents[0].autoDispatchAt !== null ? 'Auto-dispatch pending' : 'Dispatch drone'}</div>
                   </div>
                 </div>
               </div>
@@ -402,11 +217,31 @@ function App() {
 
           {/* 3D Scene */}
           <DroneScene3D
+            campus={campus}
             drones={drones}
-            alert={alert}
-            onDispatch={(droneId) => handleDispatch(droneId, false)}
+            routes={routes}
+            recommendedDroneId={selectedIncident ? dispatchRankings[selectedIncident.alert.id]?.[0]?.drone.id ?? null : null}
+            incidents={queue}
+            selectedAlertId={selectedIncident?.alert.id ?? null}
+            onSelectIncident={setSelectedAlertId}
+            onDispatch={(droneId) => selectedIncident && handleDispatch(selectedIncident.alert.id, droneId, false)}
             sentryTowers={sentryTowers}
+            onTowerClick={handleTowerClick}
+            onAcceptTowers={handleAcceptTowers}
           />
+
+          {replaying && (
+            <ReplayControls
+              playing={replay.playing}
+              speed={replay.speed}
+              step={replay.step}
+              steps={replay.steps}
+              onTogglePlaying={replay.togglePlaying}
+              onSpeedChange={replay.setSpeed}
+              onSeek={replay.seek}
+              onExit={replay.exit}
+            />
+          )}
         </div>
 
         {/* Status Panel + Activity Log - Full width on mobile, 30% on desktop */}
@@ -414,15 +249,31 @@ function App() {
           <div className="flex-1 overflow-hidden min-h-0">
             <StatusPanel
               drones={drones}
-              alert={alert}
-              onDispatch={(droneId) => handleDispatch(droneId, false)}
-              onDispatchManual={(droneId) => handleDispatch(droneId, true)}
-              dispatchStatus={dispatchStatus}
+              routes={routes}
+              dispatchRankings={dispatchRankings}
+              incidents={queue}
+              selectedAlertId={selectedIncident?.alert.id ?? null}
+              now={simDate(state)}
+              time={state.time}
+              dispatchSettings={state.dispatchSettings}
+              onSelectIncident={setSelectedAlertId}
+              onDispatch={(alertId, droneId) => handleDispatch(alertId, droneId, false)}
+              onDispatchManual={(alertId, droneId) => handleDispatch(alertId, droneId, true)}
+              onHoldAutoDispatch={handleHoldAutoDispatch}
+              onSlewTowers={handleSlewTowers}
+              onSetIncidentStatus={handleSetIncidentStatus}
+              onConfigureDispatch={handleConfigureDispatch}
+              sentryTowers={sentryTowers}
+              towerHealth={state.towerHealth}
+              sentryPosts={state.sentryPosts}
+              onSetTowerMaintenance={handleTowerMaintenance}
             />
           </div>
           <ActivityLog entries={logEntries} />
         </div>
       </div>
+
+      {historyOpen && <IncidentHistory state={state} archive={incidentArchive} onClose={() => setHistoryOpen(false)} />}
     </div>
   );
 }
@@ -0,0 +1,56 @@
+import type { CoverageSummary } from '../sim/coverage';
+
+export type CoverageLayer = 'off' | 'towers' | 'response';
+
+interface CoverageControlsProps {
+  layer: CoverageLayer;
+  occlusion: boolean;
+  summary: CoverageSummary | null; // null while the layer is off
+  onLayerChange: (layer: CoverageLayer) => void;
+  onOcclusionChange: (occlusion: boolean) => void;
+}
+
+const layerLabels: Record<CoverageLayer, string> = {
+  off: 'OFF',
+  towers: 'TOWERS',
+  response: 'RESPONSE',
+};
+
+function formatSeconds(seconds: number | null): string {
+  return seconds === null ? '-' : `${Math.round(seconds)}s`;
+}
+
+// Coverage heatmap toggle with the site-wide numbers
+export default function CoverageControls({ layer, occlusion, summary, onLayerChange, onOcclusionChange }: CoverageControlsProps) {
+  return (
+    <div className="bg-black/60 text-white text-xs rounded px-2 py-1.5 space-y-1">
+      <div className="flex items-center gap-1">
+        <span className="text-gray-400 mr-1">COVERAGE</span>
+        {(Object.keys(layerLabels) as CoverageLayer[]).map(option => (
+          <button
+            key={option}
+            onClick={() => onLayerChange(option)}
+            className={`px-1.5 py-0.5 rounded font-bold ${
+              layer === option ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            {layerLabels[option]}
+          </button>
+        ))}
+      </div>
+      {summary && (
+        <>
+          <label className="flex items-center gap-1 text-gray-400">
+            <input type="checkbox" checked={occlusion} onChange={(e) => onOcclusionChange(e.target.checked)} />
+            Buildings block towers
+          </label>
+          <div className="flex gap-3">
+            <span>Covered <span className="font-bold">{Math.round(summary.covered)}%</span></span>
+            <span>Worst response <span className="font-bold">{formatSeconds(summary.worstResponse)}</span></span>
+            <span>Mean <span className="font-bold">{formatSeconds(summary.meanResponse)}</span></span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import type { DispatchSettings } from '../sim/engine';
+import { dispatchPolicies } from '../sim/dispatchPolicies';
+import type { DispatchPolicyId } from '../sim/dispatchPolicies';
+
+interface DispatchControlsProps {
+  settings: DispatchSettings;
+  onChange: (settings: Partial<DispatchSettings>) => void;
+}
+
+const COUNTDOWN_OPTIONS = [10, 30, 60, 120]; // seconds
+
+// Dispatch policy picker with the auto-dispatch and tower gap cover toggles
+export default function DispatchControls({ settings, onChange }: DispatchControlsProps) {
+  const policy = dispatchPolicies[settings.policy];
+
+  return (
+    <div className="p-3 lg:p-4 border-b border-gray-800 space-y-2">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Dispatch Policy</h2>
+        <div className="flex gap-1.5">
+          <button
+            onClick={() => onChange({ coverTowerGaps: !settings.coverTowerGaps })}
+            title="Park an idle drone over any tower that goes offline"
+            className={`px-2 py-1 rounded text-xs font-bold transition-colors ${
+              settings.coverTowerGaps ? 'bg-violet-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            GAP COVER {settings.coverTowerGaps ? 'ON' : 'OFF'}
+          </button>
+          <button
+            onClick={() => onChange({ autoDispatch: !settings.autoDispatch })}
+            className={`px-2 py-1 rounded text-xs font-bold transition-colors ${
+              settings.autoDispatch ? 'bg-green-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            AUTO {settings.autoDispatch ? 'ON' : 'OFF'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <select
+          value={settings.policy}
+          onChange={(e) => onChange({ policy: e.target.value as DispatchPolicyId })}
+          className="flex-1 bg-[#1a1a2e] border border-gray-700 rounded px-2 py-1 text-xs text-white"
+        >
+          {Object.values(dispatchPolicies).map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+        </select>
+        <select
+          value={settings.countdown}
+          onChange={(e) => onChange({ countdown: Number(e.target.value) })}
+          title="Time the operator has before the policy dispatches"
+          className="bg-[#1a1a2e] border border-gray-700 rounded px-2 py-1 text-xs text-white"
+        >
+          {COUNTDOWN_OPTIONS.map(seconds => (
+            <option key={seconds} value={seconds}>{seconds}s</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-[10px] text-gray-500">{policy.description}</p>
+    </div>
+  );
+}
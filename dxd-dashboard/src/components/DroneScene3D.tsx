@@ -2,17 +2,47 @@ import React, { useRef, useState, useEffect, useMemo } from 'react';
 import { Canvas, useFrame } from '@react-three/fiber';
 import { OrbitControls, Line, Instances, Instance } from '@react-three/drei';
 import * as THREE from 'three';
-import type { Drone, Alert } from '../data/mockData';
-import { geofenceBoundary, statusColors, mapCenter } from '../data/mockData';
-import { useBuildings } from '../hooks/useBuildings';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import type { Drone } from '../data/mockData';
+import { statusColors, mapCenter } from '../data/mockData';
+import { geofenceZones, zoneColors } from '../data/geofences';
+import type { GeofenceZone } from '../data/geofences';
+import type { CampusData } from '../hooks/useBuildings';
 import type { OSMBuilding, OSMRoad } from '../data/fetchOSMBuildings';
 import type { SentryTower } from '../data/sentryTowers';
+import type { Incident } from '../sim/engine';
+import { incidentTarget } from '../sim/sensorFusion';
+import type { ThreatEstimate } from '../sim/sensorFusion';
+import type { LatLng } from '../sim/geo';
+import { cameraHeight, sightObstacles, viewshed } from '../sim/lineOfSight';
+import { viewCone } from '../sim/towerCamera';
+import { towerHealthColors } from '../sim/towerHealth';
+import { coverageGrid, responseTimes, summarizeCoverage, towerCoverage } from '../sim/coverage';
+import type { CoverageGrid } from '../sim/coverage';
+import { sameTowerLayout } from '../sim/towerPlacement';
+import type { PlacementProposal } from '../sim/towerPlacement';
+import CoverageControls from './CoverageControls';
+import type { CoverageLayer } from './CoverageControls';
+import TowerPlanner from './TowerPlanner';
+import SiteData from './SiteData';
+import type { RoutePoint } from '../sim/pathPlanner';
+import { droneConfigs, flightProfile } from '../data/droneConfigs';
+import { routeFor } from '../sim/patrol';
+import { padAt } from '../sim/battery';
+import { landingPads } from '../data/landingPads';
 
 interface DroneScene3DProps {
+  campus: CampusData;
   drones: Drone[];
-  alert: Alert | null;
+  routes: Record<string, RoutePoint[]>;
+  recommendedDroneId: string | null; // dispatch advisor's pick for the selected incident
+  incidents: Incident[];
+  selectedAlertId: string | null;
+  onSelectIncident: (alertId: string) => void;
   onDispatch: (droneId: string) => void;
   sentryTowers: SentryTower[];
+  onTowerClick: (towerId: string) => void;
+  onAcceptTowers: (towers: SentryTower[]) => void;
 }
 
 // Scale factor for converting real-world meters to scene units
@@ -32,22 +62,6 @@ const useThrottledFrame = (callback: (state: { clock: { elapsedTime: number } })
   });
 };
 
-// Landing pads for idle drones (on top of buildings)
-const landingPads: Record<string, { lat: number; lng: number; buildingHeight: number; buildingName: string }> = {
-  'DXD-002': {
-    lat: 33.4215,
-    lng: -111.9285,
-    buildingHeight: 10 * SCENE_SCALE,
-    buildingName: 'Fulton Center',
-  },
-  'DXD-004': {
-    lat: 33.4178,
-    lng: -111.9361,
-    buildingHeight: 10 * SCENE_SCALE,
-    buildingName: 'Memorial Union',
-  },
-};
-
 // Convert lat/lng to 3D coordinates centered on map center
 function toXZ(lat: number, lng: number) {
   const centerLat = mapCenter[0];
@@ -61,6 +75,11 @@ function toXZ(lat: number, lng: number) {
   };
 }
 
+// Scene height of a drone's body center flying at a real altitude in meters
+function sceneAltitude(altitude: number) {
+  return altitude * SCENE_SCALE + 1;
+}
+
 // Smooth interpolation helper
 function lerp(start: number, end: number, factor: number): number {
   return start + (end - start) * factor;
@@ -126,11 +145,10 @@ const DroneMarker = React.memo(function DroneMarker({
   const { smoothPos, velocity } = useSmoothPosition(drone.lat, drone.lng, 0.08);
   const { x, z } = toXZ(smoothPos.lat, smoothPos.lng);
 
-  const landingPad = landingPads[drone.id];
-  const shouldBeLanded = drone.status === 'idle' && landingPad;
-  const targetAltitude = shouldBeLanded ? landingPad.buildingHeight + 1 : 15;
+  const shouldBeLanded = drone.status === 'idle' && padAt(drone) !== undefined;
+  const targetAltitude = sceneAltitude(drone.altitude);
   const { altitude: currentAltitude, isTransitioning } = useSmoothAltitude(targetAltitude, 0.06);
-  const isLanded = shouldBeLanded && Math.abs(currentAltitude - (landingPad.buildingHeight + 1)) < 0.5;
+  const isLanded = shouldBeLanded && Math.abs(currentAltitude - targetAltitude) < 0.5;
 
   const color = isLanded ? '#6b7280' : statusColors[drone.status];
 
@@ -210,9 +228,18 @@ const DroneMarker = React.memo(function DroneMarker({
 });
 
 // Alert Marker - keep basic materials for glowing effect
-const AlertMarker = React.memo(function AlertMarker({ alert }: { alert: Alert }) {
+// Placed at the incident's dispatch target, which is the fused tower fix when there is one
+const AlertMarker = React.memo(function AlertMarker({
+  position,
+  isSelected,
+  onClick
+}: {
+  position: LatLng;
+  isSelected: boolean;
+  onClick: () => void;
+}) {
   const pulseRef = useRef<THREE.Mesh>(null);
-  const { x, z } = toXZ(alert.lat, alert.lng);
+  const { x, z } = toXZ(position.lat, position.lng);
 
   useThrottledFrame((state) => {
     if (pulseRef.current) {
@@ -230,7 +257,7 @@ const AlertMarker = React.memo(function AlertMarker({ alert }: { alert: Alert })
       </mesh>
 
       {/* Floating sphere - keep basic for glow */}
-      <mesh ref={pulseRef} position={[0, 8, 0]}>
+      <mesh ref={pulseRef} position={[0, 8, 0]} onClick={onClick}>
         <sphereGeometry args={[2, 8, 8]} />
         <meshBasicMaterial color="#ff0000" />
       </mesh>
@@ -240,6 +267,67 @@ const AlertMarker = React.memo(function AlertMarker({ alert }: { alert: Alert })
         <ringGeometry args={[3, 5, 16]} />
         <meshBasicMaterial color="#ff0000" transparent opacity={0.5} />
       </mesh>
+
+      {/* Selection indicator - dispatch target */}
+      {isSelected && (
+        <mesh position={[0, 0.25, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+          <ringGeometry args={[6, 6.8, 24]} />
+          <meshBasicMaterial color="#ffffff" transparent opacity={0.6} />
+        </mesh>
+      )}
+    </group>
+  );
+});
+
+// Fused threat estimate - 95% uncertainty ellipse plus the bearing each reporting tower measured
+const ThreatEstimateMesh = React.memo(function ThreatEstimateMesh({
+  estimate,
+  towers,
+}: {
+  estimate: ThreatEstimate;
+  towers: SentryTower[];
+}) {
+  const { ellipse, bearings } = useMemo(() => {
+    const center = toXZ(estimate.position.lat, estimate.position.lng);
+    const { semiMajor, semiMinor, orientation } = estimate.ellipse;
+    const o = orientation * Math.PI / 180;
+    // Major axis unit vector and its perpendicular, as (east, north) meters
+    const u = { e: Math.sin(o), n: Math.cos(o) };
+    const v = { e: u.n, n: -u.e };
+
+    const ellipse: [number, number, number][] = [];
+    for (let i = 0; i <= 48; i++) {
+      const t = (i / 48) * Math.PI * 2;
+      const e = semiMajor * Math.cos(t) * u.e + semiMinor * Math.sin(t) * v.e;
+      const n = semiMajor * Math.cos(t) * u.n + semiMinor * Math.sin(t) * v.n;
+      ellipse.push([center.x + e * SCENE_SCALE, 0.3, center.z - n * SCENE_SCALE]);
+    }
+
+    const bearings = estimate.detections.flatMap(detection => {
+      const tower = towers.find(t => t.id === detection.towerId);
+      if (!tower) return [];
+      const from = toXZ(tower.position.lat, tower.position.lng);
+      const b = detection.bearing * Math.PI / 180;
+      const length = tower.detectionRadius * SCENE_SCALE;
+      return [{
+        id: detection.towerId,
+        opacity: 0.3 + 0.5 * detection.confidence,
+        points: [
+          [from.x, 0.3, from.z],
+          [from.x + Math.sin(b) * length, 0.3, from.z - Math.cos(b) * length],
+        ] as [number, number, number][],
+      }];
+    });
+
+    return { ellipse, bearings };
+  }, [estimate, towers]);
+
+  return (
+    <group>
+      <Line points={ellipse} color="#ff6b6b" lineWidth={2} transparent opacity={0.8} />
+      {bearings.map(bearing => (
+        <Line key={bearing.id} points={bearing.points} color="#ff6b6b" lineWidth={1} dashed dashSize={1.5} gapSize={1} transparent opacity={bearing.opacity} />
+      ))}
     </group>
   );
 });
@@ -254,6 +342,60 @@ const Ground = React.memo(function Ground() {
   );
 });
 
+// Response time at the red end of the heatmap scale (seconds)
+const RESPONSE_SCALE = 120;
+
+// Coverage heatmap laid on the ground - one texel per grid cell, clear outside the perimeter
+const CoverageHeatmap = React.memo(function CoverageHeatmap({
+  grid,
+  layer,
+  towers,
+  response,
+}: {
+  grid: CoverageGrid;
+  layer: Exclude<CoverageLayer, 'off'>;
+  towers: number[];
+  response: (number | null)[];
+}) {
+  const texture = useMemo(() => {
+    const data = new Uint8Array(grid.rows * grid.cols * 4);
+    const color = new THREE.Color();
+    grid.cells.forEach((cell, i) => {
+      const seconds = response[i];
+      if (layer === 'towers') {
+        color.set(towers[i] === 0 ? '#ef4444' : towers[i] === 1 ? '#f59e0b' : '#22c55e');
+      } else if (seconds === null) {
+        color.set('#6b7280');
+      } else {
+        // Green when a drone is right there, through yellow to red at the scale limit
+        color.setHSL((1 - Math.min(seconds, RESPONSE_SCALE) / RESPONSE_SCALE) / 3, 0.9, 0.5);
+      }
+      const offset = (cell.row * grid.cols + cell.col) * 4;
+      data[offset] = color.r * 255;
+      data[offset + 1] = color.g * 255;
+      data[offset + 2] = color.b * 255;
+      data[offset + 3] = 255;
+    });
+    const map = new THREE.DataTexture(data, grid.cols, grid.rows);
+    map.magFilter = THREE.NearestFilter;
+    map.needsUpdate = true;
+    return map;
+  }, [grid, layer, towers, response]);
+
+  useEffect(() => () => texture.dispose(), [texture]);
+
+  // Texture row 0 is the south edge - the bottom of the plane once laid flat
+  const sw = toXZ(grid.southWest.lat, grid.southWest.lng);
+  const ne = toXZ(grid.northEast.lat, grid.northEast.lng);
+
+  return (
+    <mesh rotation={[-Math.PI / 2, 0, 0]} position={[(sw.x + ne.x) / 2, -0.45, (sw.z + ne.z) / 2]}>
+      <planeGeometry args={[ne.x - sw.x, sw.z - ne.z]} />
+      <meshBasicMaterial map={texture} transparent opacity={0.5} depthWrite={false} />
+    </mesh>
+  );
+});
+
 // INSTANCED ROADS with Lambert material
 const OSMRoads = React.memo(function OSMRoads({ roads }: { roads: OSMRoad[] }) {
   const roadsByColor = useMemo(() => {
@@ -313,108 +455,249 @@ const OSMRoads = React.memo(function OSMRoads({ roads }: { roads: OSMRoad[] }) {
   );
 });
 
-// Geofence - keep basic materials for visibility
-const Geofence = React.memo(function Geofence() {
+// Geofence zones - outline and translucent fill for any polygon; posts mark perimeter corners
+const GeofenceZoneMesh = React.memo(function GeofenceZoneMesh({ zone }: { zone: GeofenceZone }) {
+  const color = zoneColors[zone.type];
+  const isPerimeter = zone.type === 'perimeter';
+
+  const corners = useMemo(() => {
+    return zone.polygon.map(([lat, lng]) => toXZ(lat, lng));
+  }, [zone]);
+
   const linePoints: [number, number, number][] = useMemo(() => {
-    const points = geofenceBoundary.map(([lat, lng]) => {
-      const { x, z } = toXZ(lat, lng);
-      return [x, 2, z] as [number, number, number];
-    });
+    const points = corners.map(({ x, z }) => [x, isPerimeter ? 2 : 1, z] as [number, number, number]);
     points.push(points[0]);
     return points;
-  }, []);
+  }, [corners, isPerimeter]);
 
-  const posts = useMemo(() => {
-    return geofenceBoundary.map(([lat, lng], i) => {
-      const { x, z } = toXZ(lat, lng);
-      return { x, z, key: i };
-    });
-  }, []);
+  // Shape lies in the XY plane; rotating it flat maps shape y to -z
+  const shape = useMemo(() => {
+    return new THREE.Shape(corners.map(({ x, z }) => new THREE.Vector2(x, -z)));
+  }, [corners]);
 
   return (
     <group>
-      <Line points={linePoints} color="#ff3333" lineWidth={2} />
+      <Line points={linePoints} color={color} lineWidth={2} dashed={zone.type === 'privacy'} dashSize={2} gapSize={1} />
 
-      {posts.map(({ x, z, key }) => (
-        <mesh key={key} position={[x, 5, z]}>
+      {isPerimeter && corners.map(({ x, z }, i) => (
+        <mesh key={i} position={[x, 5, z]}>
           <cylinderGeometry args={[0.3, 0.3, 10, 6]} />
-          <meshBasicMaterial color="#ff3333" />
+          <meshBasicMaterial color={color} />
         </mesh>
       ))}
 
-      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.01, 0]}>
-        <planeGeometry args={[
-          Math.abs(toXZ(0, geofenceBoundary[0][1]).x - toXZ(0, geofenceBoundary[1][1]).x),
-          Math.abs(toXZ(geofenceBoundary[0][0], 0).z - toXZ(geofenceBoundary[2][0], 0).z)
-        ]} />
-        <meshBasicMaterial color="#ff3333" transparent opacity={0.03} />
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, isPerimeter ? 0.01 : 0.02, 0]}>
+        <shapeGeometry args={[shape]} />
+        <meshBasicMaterial color={color} transparent opacity={isPerimeter ? 0.03 : 0.12} side={THREE.DoubleSide} />
       </mesh>
     </group>
   );
 });
 
-// INSTANCED BUILDINGS with Lambert material for depth
-const InstancedBuildings = React.memo(function InstancedBuildings({
+const Geofence = React.memo(function Geofence() {
+  return (
+    <group>
+      {geofenceZones.map(zone => (
+        <GeofenceZoneMesh key={zone.id} zone={zone} />
+      ))}
+    </group>
+  );
+});
+
+// Patrol routes - waypoint polylines for every drone in patrol mode
+const PatrolRoutes = React.memo(function PatrolRoutes() {
+  const routes = useMemo(() => {
+    return Object.entries(droneConfigs)
+      .filter(([, config]) => config.mode === 'patrol')
+      .map(([droneId, config]) => {
+        const points = routeFor(config).map(({ lat, lng }) => {
+          const { x, z } = toXZ(lat, lng);
+          return [x, sceneAltitude(flightProfile.patrolAltitude), z] as [number, number, number];
+        });
+        // Loops close back on the first waypoint; ping-pong routes stay open
+        if (config.pattern !== 'pingpong' && points.length > 2) points.push(points[0]);
+        return { droneId, points };
+      })
+      .filter(route => route.points.length >= 2);
+  }, []);
+
+  return (
+    <group>
+      {routes.map(({ droneId, points }) => (
+        <group key={droneId}>
+          <Line points={points} color={statusColors.patrolling} lineWidth={1} dashed dashSize={2} gapSize={1.5} transparent opacity={0.5} />
+          {points.map(([x, y, z], i) => (
+            <mesh key={i} position={[x, y, z]}>
+              <sphereGeometry args={[0.4, 6, 6]} />
+              <meshBasicMaterial color={statusColors.patrolling} transparent opacity={0.6} />
+            </mesh>
+          ))}
+        </group>
+      ))}
+    </group>
+  );
+});
+
+// Planned paths - obstacle-aware routes ahead of responding and returning drones
+const PlannedPaths = React.memo(function PlannedPaths({
+  drones,
+  routes
+}: {
+  drones: Drone[];
+  routes: Record<string, RoutePoint[]>;
+}) {
+  const paths = drones
+    .filter(drone => (routes[drone.id]?.length ?? 0) > 0)
+    .map(drone => {
+      const points = [{ lat: drone.lat, lng: drone.lng, alt: drone.altitude }, ...routes[drone.id]].map(p => {
+        const { x, z } = toXZ(p.lat, p.lng);
+        return [x, sceneAltitude(p.alt), z] as [number, number, number];
+      });
+      return { id: drone.id, points, color: statusColors[drone.status] };
+    });
+
+  return (
+    <group>
+      {paths.map(({ id, points, color }) => (
+        <Line key={id} points={points} color={color} lineWidth={2} transparent opacity={0.8} />
+      ))}
+    </group>
+  );
+});
+
+// Landing pads - rooftop charging spots
+const LandingPads = React.memo(function LandingPads() {
+  return (
+    <group>
+      {landingPads.map(pad => {
+        const { x, z } = toXZ(pad.lat, pad.lng);
+        return (
+          <mesh key={pad.id} position={[x, pad.height * SCENE_SCALE + 0.15, z]} rotation={[-Math.PI / 2, 0, 0]}>
+            <ringGeometry args={[1.6, 2.2, 16]} />
+            <meshBasicMaterial color="#facc15" transparent opacity={0.7} />
+          </mesh>
+        );
+      })}
+    </group>
+  );
+});
+
+// Building outline in scene coordinates - buildings without a mapped footprint are their box
+function footprintXZ(building: OSMBuilding): { outer: { x: number; z: number }[]; holes: { x: number; z: number }[][] } {
+  if (building.footprint) {
+    return {
+      outer: building.footprint.outer.map(p => toXZ(p.lat, p.lng)),
+      holes: building.footprint.holes.map(hole => hole.map(p => toXZ(p.lat, p.lng))),
+    };
+  }
+  const { x, z } = toXZ(building.lat, building.lng);
+  const hw = Math.max(building.width * SCENE_SCALE, 1) / 2;
+  const hd = Math.max(building.depth * SCENE_SCALE, 1) / 2;
+  return {
+    outer: [{ x: x - hw, z: z - hd }, { x: x + hw, z: z - hd }, { x: x + hw, z: z + hd }, { x: x - hw, z: z + hd }],
+    holes: [],
+  };
+}
+
+// Footprint extruded from its base up to the roof - drawn in XY, extruded along Z, then stood upright
+function buildingGeometry(building: OSMBuilding): THREE.ExtrudeGeometry {
+  const { outer, holes } = footprintXZ(building);
+  const shape = new THREE.Shape(outer.map(p => new THREE.Vector2(p.x, -p.z)));
+  shape.holes = holes.map(hole => new THREE.Path(hole.map(p => new THREE.Vector2(p.x, -p.z))));
+  const heightVar = 1 + (Math.abs(building.id) % 10) * 0.02;
+  const height = Math.max(building.height * SCENE_SCALE * heightVar, 0.5);
+  // Raised building parts float at their min_height
+  const base = (building.minHeight ?? 0) * SCENE_SCALE * heightVar;
+  const geometry = new THREE.ExtrudeGeometry(shape, { depth: Math.max(height - base, 0.1), bevelEnabled: false });
+  geometry.rotateX(-Math.PI / 2);
+  geometry.translate(0, base, 0);
+  return geometry;
+}
+
+// BUILDINGS - extruded footprints merged into one mesh per color, with Lambert material for depth
+const BuildingMeshes = React.memo(function BuildingMeshes({
   buildings
 }: {
   buildings: OSMBuilding[];
 }) {
-  const buildingsByColor = useMemo(() => {
+  const geometries = useMemo(() => {
     const groups: Record<string, OSMBuilding[]> = {};
     buildings.forEach(b => {
       if (!groups[b.color]) groups[b.color] = [];
       groups[b.color].push(b);
     });
-    return groups;
+    return Object.entries(groups).map(([color, colorBuildings]) => {
+      const parts = colorBuildings.map(buildingGeometry);
+      const merged = mergeGeometries(parts);
+      parts.forEach(part => part.dispose());
+      return { color, geometry: merged };
+    });
   }, [buildings]);
+  useEffect(() => () => geometries.forEach(({ geometry }) => geometry?.dispose()), [geometries]);
 
   return (
     <group>
-      {Object.entries(buildingsByColor).map(([color, colorBuildings]) => (
-        <Instances key={color} limit={colorBuildings.length}>
-          <boxGeometry />
+      {geometries.map(({ color, geometry }) => geometry && (
+        <mesh key={color} geometry={geometry}>
           <meshLambertMaterial color={color} />
-
-          {colorBuildings.map(building => {
-            const { x, z } = toXZ(building.lat, building.lng);
-            const width = Math.max(building.width * SCENE_SCALE, 1);
-            const depth = Math.max(building.depth * SCENE_SCALE, 1);
-            const heightVar = 1 + (building.id % 10) * 0.02;
-            const height = Math.max(building.height * SCENE_SCALE * heightVar, 0.5);
-
-            return (
-              <Instance
-                key={building.id}
-                position={[x, height / 2, z]}
-                scale={[width, height, depth]}
-              />
-            );
-          })}
-        </Instances>
+        </mesh>
       ))}
     </group>
   );
 });
 
 // Sentry Tower with Lambert material
-const SentryTowerMesh = React.memo(function SentryTowerMesh({ tower }: { tower: SentryTower }) {
-  const cameraHeadRef = useRef<THREE.Group>(null);
+// The faint outline is the tower's viewshed - its range cut back where buildings block the view.
+// The filled wedge is the part of it the camera is looking at right now, hidden while the tower is down;
+// click to lock or release the pan.
+const SentryTowerMesh = React.memo(function SentryTowerMesh({
+  tower,
+  viewshed,
+  onClick,
+}: {
+  tower: SentryTower;
+  viewshed: LatLng[];
+  onClick: () => void;
+}) {
   const { x, z } = toXZ(tower.position.lat, tower.position.lng);
 
-  const towerHeight = tower.type === 'elevated' ? 8 : 5;
-  const detectionRadiusScaled = tower.detectionRadius * SCENE_SCALE;
+  const towerHeight = cameraHeight(tower);
+
+  // Outline relative to the tower
+  const outline = useMemo(() => {
+    const points = viewshed.map(p => {
+      const local = toXZ(p.lat, p.lng);
+      return [local.x - x, 0.1, local.z - z] as [number, number, number];
+    });
+    if (points.length > 0) points.push(points[0]);
+    return points;
+  }, [viewshed, x, z]);
+
+  // Current view cone - the fill shape is drawn in XY and laid flat
+  const cone = useMemo(() => {
+    const points = viewCone(tower, viewshed).map(p => {
+      const local = toXZ(p.lat, p.lng);
+      return { x: local.x - x, z: local.z - z };
+    });
+    return points.length > 0 ? new THREE.Shape(points.map(p => new THREE.Vector2(p.x, -p.z))) : null;
+  }, [tower, viewshed, x, z]);
 
   const statusColor = tower.status === 'alert' ? '#ff0000' :
-                      tower.status === 'active' ? '#00ff00' : '#666666';
+                      tower.health === 'online' ? '#00ff00' : towerHealthColors[tower.health];
 
-  useThrottledFrame((state) => {
-    if (cameraHeadRef.current) {
-      cameraHeadRef.current.rotation.y = Math.sin(state.clock.elapsedTime * 0.5) * 0.8;
-    }
-  }, 20);
+  // Compass heading to rotation about Y - the lens faces +Z at rotation 0, which is south
+  const headRotation = Math.PI - tower.pan * Math.PI / 180;
+  const lockXZ = tower.panLock && toXZ(tower.panLock.lat, tower.panLock.lng);
+  const lock = lockXZ && { x: lockXZ.x - x, z: lockXZ.z - z };
 
   return (
-    <group position={[x, 0, z]}>
+    <group
+      position={[x, 0, z]}
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+    >
       {/* Base */}
       <mesh position={[0, 0.3, 0]}>
         <cylinderGeometry args={[1, 1.2, 0.6, 6]} />
@@ -434,7 +717,7 @@ const SentryTowerMesh = React.memo(function SentryTowerMesh({ tower }: { tower:
       </mesh>
 
       {/* Camera head */}
-      <group ref={cameraHeadRef} position={[0, towerHeight + 0.6, 0]}>
+      <group position={[0, towerHeight + 0.6, 0]} rotation={[0, headRotation, 0]}>
         <mesh position={[0, 0, 0.3]}>
           <boxGeometry args={[0.6, 0.5, 0.9]} />
           <meshLambertMaterial color="#222222" />
@@ -451,36 +734,126 @@ const SentryTowerMesh = React.memo(function SentryTowerMesh({ tower }: { tower:
         <meshBasicMaterial color={statusColor} />
       </mesh>
 
-      {/* Detection radius ring - keep basic */}
-      <mesh position={[0, 0.1, 0]} rotation={[-Math.PI / 2, 0, 0]}>
-        <ringGeometry args={[detectionRadiusScaled - 0.3, detectionRadiusScaled, 24]} />
-        <meshBasicMaterial color={statusColor} transparent opacity={tower.status === 'alert' ? 0.4 : 0.2} />
+      {/* Viewshed and view cone - keep basic */}
+      {outline.length > 0 && (
+        <Line points={outline} color={statusColor} lineWidth={1} transparent opacity={0.25} />
+      )}
+      {cone && tower.status !== 'offline' && (
+        <mesh position={[0, 0.05, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+          <shapeGeometry args={[cone]} />
+          <meshBasicMaterial color={statusColor} transparent opacity={tower.status === 'alert' ? 0.25 : 0.12} depthWrite={false} />
+        </mesh>
+      )}
+
+      {/* Operator pan lock */}
+      {lock && (
+        <Line
+          points={[[0, towerHeight + 0.6, 0], [lock.x, 0.2, lock.z]]}
+          color="#ffff00"
+          lineWidth={1}
+          dashed
+          dashSize={2}
+          gapSize={1}
+        />
+      )}
+    </group>
+  );
+});
+
+// Planner preview - a ghost mast with the viewshed and pan reach the tower would have
+const ProposedTowerMesh = React.memo(function ProposedTowerMesh({ tower, viewshed }: { tower: SentryTower; viewshed: LatLng[] }) {
+  const { x, z } = toXZ(tower.position.lat, tower.position.lng);
+  const towerHeight = cameraHeight(tower);
+
+  const outline = useMemo(() => {
+    const points = viewshed.map(p => {
+      const local = toXZ(p.lat, p.lng);
+      return [local.x - x, 0.15, local.z - z] as [number, number, number];
+    });
+    if (points.length > 0) points.push(points[0]);
+    return points;
+  }, [viewshed, x, z]);
+
+  // Line toward the pan center for towers that can't rotate fully
+  const rad = tower.panCenter * Math.PI / 180;
+  const reach = tower.detectionRadius * SCENE_SCALE * 0.3;
+
+  return (
+    <group position={[x, 0, z]}>
+      <mesh position={[0, towerHeight / 2, 0]}>
+        <cylinderGeometry args={[0.4, 0.4, towerHeight, 6]} />
+        <meshBasicMaterial color="#22d3ee" transparent opacity={0.5} />
       </mesh>
+      {outline.length > 0 && (
+        <Line points={outline} color="#22d3ee" lineWidth={1} dashed dashSize={2} gapSize={1} transparent opacity={0.7} />
+      )}
+      {tower.panRange < 360 && (
+        <Line points={[[0, 0.2, 0], [Math.sin(rad) * reach, 0.2, -Math.cos(rad) * reach]]} color="#22d3ee" lineWidth={2} />
+      )}
     </group>
   );
 });
 
 // Main component
 export default function DroneScene3D({
+  campus,
   drones,
-  alert,
+  routes,
+  recommendedDroneId,
+  incidents,
+  selectedAlertId,
+  onSelectIncident,
   onDispatch,
-  sentryTowers
+  sentryTowers,
+  onTowerClick,
+  onAcceptTowers
 }: DroneScene3DProps) {
-  const { buildings, roads, isLoading, source } = useBuildings();
-
-  const nearestDroneId = useMemo(() => {
-    if (!alert) return null;
-    const availableDrones = drones.filter(d => d.status !== 'responding');
-    if (availableDrones.length === 0) return null;
+  const { buildings, roads, isLoading } = campus;
+  const selectedIncident = incidents.find(i => i.alert.id === selectedAlertId) ?? null;
+  const alert = selectedIncident?.alert ?? null;
+
+  // Towers as installed - camera pan and status change every tick, the layout only when a
+  // new one is accepted
+  const [layout, setLayout] = useState(sentryTowers);
+  if (!sameTowerLayout(layout, sentryTowers)) setLayout(sentryTowers);
+
+  // Layout proposed by the tower planner, previewed until accepted or discarded
+  const [proposal, setProposal] = useState<PlacementProposal | null>(null);
+
+  // What each tower can actually see past the loaded buildings
+  const sight = useMemo(() => sightObstacles(buildings), [buildings]);
+  const viewsheds = useMemo(
+    () => Object.fromEntries(layout.map(tower => [tower.id, viewshed(tower, sight)])),
+    [layout, sight],
+  );
+  const proposalViewsheds = useMemo(
+    () => Object.fromEntries((proposal?.towers ?? []).map(tower => [tower.id, viewshed(tower, sight)])),
+    [proposal, sight],
+  );
 
-    const nearest = availableDrones.reduce((nearest, drone) => {
-      const currentDist = Math.pow(drone.lat - alert.lat, 2) + Math.pow(drone.lng - alert.lng, 2);
-      const nearestDist = Math.pow(nearest.lat - alert.lat, 2) + Math.pow(nearest.lng - alert.lng, 2);
-      return currentDist < nearestDist ? drone : nearest;
-    });
-    return nearest.id;
-  }, [alert, drones]);
+  // Coverage heatmap - tower coverage only changes with the layout and buildings, response times
+  // with the fleet. A proposed layout is shown in place of the installed one.
+  const [coverageLayer, setCoverageLayer] = useState<CoverageLayer>('off');
+  const [occlusion, setOcclusion] = useState(true);
+  const grid = useMemo(() => coverageGrid(), []);
+  // Towers that are offline or in maintenance leave their gap - keyed by id so the counts only
+  // redo when a tower goes down or comes back
+  const downTowers = sentryTowers.filter(t => t.status === 'offline').map(t => t.id).join(',');
+  const towerCounts = useMemo(
+    () => {
+      if (coverageLayer === 'off') return [];
+      const down = downTowers.split(',');
+      return proposal
+        ? towerCoverage(grid, proposal.towers, occlusion ? proposalViewsheds : null)
+        : towerCoverage(grid, layout.filter(t => !down.includes(t.id)), occlusion ? viewsheds : null);
+    },
+    [coverageLayer, grid, occlusion, proposal, proposalViewsheds, layout, viewsheds, downTowers],
+  );
+  const response = useMemo(
+    () => (coverageLayer === 'off' ? [] : responseTimes(grid, drones)),
+    [coverageLayer, grid, drones],
+  );
+  const coverageSummary = coverageLayer === 'off' ? null : summarizeCoverage(towerCounts, response);
 
   return (
     <div className="w-full h-full relative">
@@ -490,8 +863,26 @@ export default function DroneScene3D({
         </div>
       )}
 
-      <div className="absolute bottom-4 left-4 bg-black/50 text-white text-xs px-2 py-1 rounded z-10">
-        {source}: {buildings.length} buildings, {roads.length} roads
+      <div className="absolute bottom-4 left-4 z-10">
+        <SiteData campus={campus} />
+      </div>
+
+      <div className="absolute bottom-4 right-4 z-10 flex flex-col items-end gap-2">
+        <TowerPlanner
+          grid={grid}
+          obstacles={sight}
+          towers={layout}
+          proposal={proposal}
+          onProposalChange={setProposal}
+          onAccept={onAcceptTowers}
+        />
+        <CoverageControls
+          layer={coverageLayer}
+          occlusion={occlusion}
+          summary={coverageSummary}
+          onLayerChange={setCoverageLayer}
+          onOcclusionChange={setOcclusion}
+        />
       </div>
 
       <Canvas
@@ -513,13 +904,29 @@ export default function DroneScene3D({
 
         {/* Scene elements */}
         <Ground />
+        {coverageLayer !== 'off' && (
+          <CoverageHeatmap grid={grid} layer={coverageLayer} towers={towerCounts} response={response} />
+        )}
         <OSMRoads roads={roads} />
         <Geofence />
-        <InstancedBuildings buildings={buildings} />
+        <PatrolRoutes />
+        <LandingPads />
+        <PlannedPaths drones={drones} routes={routes} />
+        <BuildingMeshes buildings={buildings} />
 
         {/* Sentry Towers */}
         {sentryTowers.map(tower => (
-          <SentryTowerMesh key={tower.id} tower={tower} />
+          <SentryTowerMesh
+            key={tower.id}
+            tower={tower}
+            viewshed={viewsheds[tower.id] ?? []}
+            onClick={() => onTowerClick(tower.id)}
+          />
+        ))}
+
+        {/* Proposed tower layout */}
+        {proposal?.towers.map(tower => (
+          <ProposedTowerMesh key={tower.id} tower={tower} viewshed={proposalViewsheds[tower.id] ?? []} />
         ))}
 
         {/* Drones */}
@@ -527,7 +934,7 @@ export default function DroneScene3D({
           <DroneMarker
             key={drone.id}
             drone={drone}
-            isNearest={alert !== null && drone.id === nearestDroneId && drone.status !== 'responding'}
+            isNearest={alert !== null && drone.id === recommendedDroneId && drone.status !== 'responding'}
             onClick={() => {
               if (alert && drone.status !== 'responding') {
                 onDispatch(drone.id);
@@ -536,8 +943,18 @@ export default function DroneScene3D({
           />
         ))}
 
-        {/* Alert */}
-        {alert && <AlertMarker alert={alert} />}
+        {/* Alerts - one marker per open incident, with its tower fix */}
+        {incidents.map(incident => (
+          <AlertMarker
+            key={incident.alert.id}
+            position={incidentTarget(incident)}
+            isSelected={incident.alert.id === selectedAlertId}
+            onClick={() => onSelectIncident(incident.alert.id)}
+          />
+        ))}
+        {incidents.map(incident => incident.estimate && (
+          <ThreatEstimateMesh key={incident.alert.id} estimate={incident.estimate} towers={sentryTowers} />
+        ))}
 
         {/* Camera controls */}
         <OrbitControls
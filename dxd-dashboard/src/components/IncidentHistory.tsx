@@ -0,0 +1,200 @@
+import { useState } from 'react';
+import { alertTypes, logTypeColors, severityColors } from '../data/mockData';
+import { geofenceZones } from '../data/geofences';
+import type { SimState } from '../sim/engine';
+import { incidentStatusColors, incidentStatusLabels } from '../sim/incidentLifecycle';
+import { detectionToArrival, emptyIncidentFilter, incidentRecord, searchIncidents } from '../sim/incidentHistory';
+import type { IncidentFilter, TimelineEntry } from '../sim/incidentHistory';
+import type { IncidentArchive } from '../hooks/useIncidentArchive';
+
+interface IncidentHistoryProps {
+  state: SimState;
+  archive: IncidentArchive; // closed incidents from earlier sessions
+  onClose: () => void;
+}
+
+function formatDateTime(date: Date): string {
+  return date.toLocaleString('en-US', {
+    hour12: false,
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+function formatDuration(seconds: number | null): string {
+  if (seconds === null) return '-';
+  const whole = Math.round(seconds);
+  return whole < 60 ? `${whole}s` : `${Math.floor(whole / 60)}m ${whole % 60}s`;
+}
+
+// <input type="datetime-local"> value to Date, empty meaning no bound
+function parseLocalDateTime(value: string): Date | null {
+  return value ? new Date(value) : null;
+}
+
+const selectClass = 'bg-[#1a1a2e] border border-gray-700 rounded px-2 py-1 text-xs text-white';
+
+// Full timeline of one incident - detections, dispatches, arrivals and status changes
+function IncidentTimeline({ entries }: { entries: TimelineEntry[] }) {
+  return (
+    <div className="font-mono text-xs space-y-1">
+      {entries.map(entry => {
+        const color = entry.kind === 'status' ? incidentStatusColors[entry.status] : logTypeColors[entry.kind];
+        return (
+          <div key={entry.id} className="flex items-start gap-2">
+            <span className="text-gray-500 shrink-0">{formatDateTime(entry.timestamp)}</span>
+            <span
+              className="px-1.5 py-0.5 rounded text-[10px] font-bold shrink-0 uppercase"
+              style={{ backgroundColor: `${color}20`, color }}
+            >
+              {entry.kind}
+            </span>
+            <span className="text-gray-300 break-words">{entry.message}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Searchable list of closed incidents for shift review - this session's and the archive's
+export default function IncidentHistory({ state, archive, onClose }: IncidentHistoryProps) {
+  const [filter, setFilter] = useState<IncidentFilter>(emptyIncidentFilter);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  // A replayed recording can be a session that's also in the archive - its own copy wins
+  const current = state.closedIncidents.map(incident => incidentRecord(state, incident));
+  const currentKeys = new Set(current.map(record => record.key));
+  const records = [...archive.earlier.filter(record => !currentKeys.has(record.key)), ...current];
+  const incidents = searchIncidents(records, filter);
+  const selected = records.find(record => record.key === selectedKey) ?? null;
+  const droneNames = Object.fromEntries(state.drones.map(d => [d.id, d.name]));
+  const update = (patch: Partial<IncidentFilter>) => setFilter(current => ({ ...current, ...patch }));
+
+  return (
+    <div className="fixed inset-0 z-[2000] bg-black/70 flex items-center justify-center p-2 lg:p-8" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl h-full bg-[#12121a] border border-gray-800 rounded-lg flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-3 lg:p-4 border-b border-gray-800 flex items-center justify-between shrink-0">
+          <h2 className="text-sm font-bold text-white tracking-wide">
+            INCIDENT HISTORY ({incidents.length} of {records.length})
+          </h2>
+          {archive.error && <span className="text-xs text-amber-400 truncate mx-3" title={archive.error}>{archive.error}</span>}
+          <button
+            onClick={onClose}
+            className="text-xs font-bold text-gray-300 hover:text-white px-2 py-1 rounded border border-gray-700"
+          >
+            CLOSE
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="p-3 lg:p-4 border-b border-gray-800 flex flex-wrap gap-2 items-center shrink-0">
+          <label className="text-xs text-gray-500 flex items-center gap-1">
+            From
+            <input
+              type="datetime-local"
+              onChange={(e) => update({ from: parseLocalDateTime(e.target.value) })}
+              className={selectClass}
+            />
+          </label>
+          <label className="text-xs text-gray-500 flex items-center gap-1">
+            To
+            <input
+              type="datetime-local"
+              onChange={(e) => update({ to: parseLocalDateTime(e.target.value) })}
+              className={selectClass}
+            />
+          </label>
+          <select
+            value={filter.type}
+            onChange={(e) => update({ type: e.target.value as IncidentFilter['type'] })}
+            className={selectClass}
+          >
+            <option value="">All types</option>
+            {alertTypes.map(({ type }) => (
+              <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+            ))}
+          </select>
+          <select value={filter.zoneId} onChange={(e) => update({ zoneId: e.target.value })} className={selectClass}>
+            <option value="">All zones</option>
+            {geofenceZones.map(zone => (
+              <option key={zone.id} value={zone.id}>{zone.name}</option>
+            ))}
+          </select>
+          <select value={filter.droneId} onChange={(e) => update({ droneId: e.target.value })} className={selectClass}>
+            <option value="">All drones</option>
+            {state.drones.map(drone => (
+              <option key={drone.id} value={drone.id}>{drone.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex-1 flex flex-col lg:flex-row overflow-hidden min-h-0">
+          {/* Incident list */}
+          <div className="flex-1 overflow-y-auto min-h-0">
+            {incidents.length === 0 ? (
+              <div className="text-gray-600 text-center text-sm py-8">No closed incidents match</div>
+            ) : (
+              <table className="w-full text-xs">
+                <thead className="text-gray-500 uppercase tracking-wider text-left sticky top-0 bg-[#12121a]">
+                  <tr>
+                    <th className="px-3 py-2 font-semibold">Detected</th>
+                    <th className="px-3 py-2 font-semibold">Type</th>
+                    <th className="px-3 py-2 font-semibold">Location</th>
+                    <th className="px-3 py-2 font-semibold">Drone</th>
+                    <th className="px-3 py-2 font-semibold">To scene</th>
+                    <th className="px-3 py-2 font-semibold">Outcome</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {incidents.map(({ key, incident }) => (
+                    <tr
+                      key={key}
+                      onClick={() => setSelectedKey(key)}
+                      className={`border-t border-gray-800 cursor-pointer hover:bg-white/5 ${
+                        key === selectedKey ? 'bg-white/10' : ''
+                      }`}
+                    >
+                      <td className="px-3 py-2 text-gray-400 whitespace-nowrap">{formatDateTime(incident.alert.timestamp)}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <span className="font-bold uppercase" style={{ color: severityColors[incident.alert.severity] }}>
+                          {incident.alert.severity}
+                        </span>{' '}
+                        <span className="text-white">{incident.alert.type.replace(/_/g, ' ')}</span>
+                      </td>
+                      <td className="px-3 py-2 text-gray-300">{incident.alert.locationName}</td>
+                      <td className="px-3 py-2 text-gray-300">
+                        {incident.responders.map(id => droneNames[id] ?? id).join(', ') || '-'}
+                      </td>
+                      <td className="px-3 py-2 text-gray-300">{formatDuration(detectionToArrival(incident))}</td>
+                      <td className="px-3 py-2 font-bold uppercase" style={{ color: incidentStatusColors[incident.status] }}>
+                        {incidentStatusLabels[incident.status]}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Timeline of the selected incident */}
+          {selected && (
+            <div className="lg:w-96 border-t lg:border-t-0 lg:border-l border-gray-800 p-3 lg:p-4 overflow-y-auto max-h-[40%] lg:max-h-none">
+              <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-1">{selected.incident.alert.id}</h3>
+              <p className="text-white text-sm font-medium">{selected.incident.alert.description}</p>
+              <p className="text-gray-400 text-xs mb-3">{selected.incident.alert.locationName}</p>
+              <IncidentTimeline entries={selected.timeline} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
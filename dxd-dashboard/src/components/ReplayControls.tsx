@@ -0,0 +1,81 @@
+import { TICK_SECONDS } from '../sim/engine';
+import { REPLAY_SPEEDS } from '../hooks/useReplay';
+
+interface ReplayControlsProps {
+  playing: boolean;
+  speed: number;
+  step: number;
+  steps: number;
+  onTogglePlaying: () => void;
+  onSpeedChange: (speed: number) => void;
+  onSeek: (step: number) => void;
+  onExit: () => void;
+}
+
+function formatSimTime(seconds: number): string {
+  const whole = Math.floor(seconds);
+  const minutes = Math.floor(whole / 60);
+  return `${minutes}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+// Playback bar for a recorded session - play/pause, speed and a timeline scrubber
+export default function ReplayControls({
+  playing,
+  speed,
+  step,
+  steps,
+  onTogglePlaying,
+  onSpeedChange,
+  onSeek,
+  onExit,
+}: ReplayControlsProps) {
+  return (
+    <div className="absolute bottom-10 left-1/2 -translate-x-1/2 z-[1000] w-[95%] sm:w-[600px] bg-[#1a1a2e]/95 backdrop-blur border border-purple-500/60 rounded-lg px-3 py-2 flex items-center gap-3">
+      <button
+        onClick={onTogglePlaying}
+        className="min-w-[36px] min-h-[36px] rounded bg-purple-600 hover:bg-purple-700 text-white flex items-center justify-center"
+        title={playing ? 'Pause' : 'Play'}
+      >
+        {playing ? (
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+          </svg>
+        ) : (
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M7 5v14l12-7z" />
+          </svg>
+        )}
+      </button>
+
+      <span className="text-xs text-gray-300 tabular-nums w-20 shrink-0">
+        {formatSimTime(step * TICK_SECONDS)} / {formatSimTime(steps * TICK_SECONDS)}
+      </span>
+
+      <input
+        type="range"
+        min={0}
+        max={steps}
+        value={Math.floor(step)}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        className="flex-1 accent-purple-500"
+      />
+
+      <select
+        value={speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+        className="bg-[#0a0a12] border border-gray-700 rounded px-1 py-1 text-xs text-white"
+      >
+        {REPLAY_SPEEDS.map(s => (
+          <option key={s} value={s}>{s}x</option>
+        ))}
+      </select>
+
+      <button
+        onClick={onExit}
+        className="text-xs font-bold text-gray-300 hover:text-white px-2 py-1 rounded border border-gray-700"
+      >
+        EXIT
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { useRef, useState } from 'react';
+import { parseRecording, serializeRecording } from '../sim/recording';
+import type { SessionRecording } from '../sim/recording';
+
+interface SessionControlsProps {
+  replaying: boolean;
+  getRecording: () => SessionRecording;
+  onReplay: (recording: SessionRecording) => void;
+}
+
+// Offer the recording as a JSON file download
+function downloadRecording(recording: SessionRecording) {
+  const blob = new Blob([serializeRecording(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `dxd-session-${recording.recordedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Recording indicator with save, load and review of the current session
+export default function SessionControls({ replaying, getRecording, onReplay }: SessionControlsProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadFile = async (file: File) => {
+    try {
+      onReplay(parseRecording(await file.text()));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read recording');
+    }
+  };
+
+  const buttonClass = 'text-[10px] lg:text-xs font-bold text-gray-300 hover:text-white px-1.5 py-0.5 rounded border border-gray-700';
+
+  return (
+    <div className="flex items-center gap-2 bg-[#1a1a2e]/90 backdrop-blur px-3 py-1.5 lg:py-2 rounded-lg border border-gray-800" title={error ?? undefined}>
+      {replaying ? (
+        <span className="text-purple-400 text-xs lg:text-sm font-medium">REPLAY</span>
+      ) : (
+        <span className="flex items-center gap-1.5 text-red-400 text-xs lg:text-sm font-medium">
+          <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
+          REC
+        </span>
+      )}
+      <button onClick={() => onReplay(getRecording())} className={buttonClass} title="Review this session">
+        REVIEW
+      </button>
+      <button onClick={() => downloadRecording(getRecording())} className={buttonClass} title="Save this session to a file">
+        SAVE
+      </button>
+      <button onClick={() => fileRef.current?.click()} className={`${buttonClass} ${error ? 'border-red-500' : ''}`} title={error ?? 'Load a saved session'}>
+        LOAD
+      </button>
+      <input
+        ref={fileRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) loadFile(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useRef, useState } from 'react';
+import type { CampusData, StoreError } from '../hooks/useBuildings';
+import { SITE_FILE_ACCEPT } from '../data/osmImport';
+import type { OverpassErrorKind } from '../data/overpassClient';
+
+const storeErrorLabels: Record<StoreError['operation'], string> = {
+  read: 'Could not read the stored copy',
+  write: 'Could not save to the store',
+};
+
+const fetchErrorLabels: Record<OverpassErrorKind, string> = {
+  timeout: 'Map server timed out',
+  network: 'Map server unreachable',
+  http: 'Map server error',
+  query: 'Map query rejected',
+  invalid: 'Bad map data',
+  aborted: 'Map fetch cancelled',
+};
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatAge(ms: number): string {
+  const minutes = Math.floor(Math.max(0, ms) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return hours < 48 ? `${hours}h` : `${Math.floor(hours / 24)}d`;
+}
+
+// Map data source with the stored copy's size and age, a refresh, and an importer for
+// offline site files
+export default function SiteData({ campus }: { campus: CampusData }) {
+  const { buildings, roads, source, stored, refreshing, fetchError, siteFileError, storeError, refresh, importFile, clearImportedSite } = campus;
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Ages only need to tick over once a minute
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const loadFile = async (file: File) => {
+    setImporting(true);
+    try {
+      await importFile(file);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read site file');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const buttonClass = 'font-bold text-gray-300 hover:text-white px-1.5 py-0.5 rounded border border-gray-700 disabled:opacity-40';
+  const imported = stored?.source === 'file';
+
+  return (
+    <div className="bg-black/50 text-white text-xs px-2 py-1 rounded space-y-1">
+      <div className="flex items-center gap-2">
+        <span>
+          {imported && stored.fileName ? `file ${stored.fileName}` : source}: {buildings.length} buildings, {roads.length} roads
+        </span>
+        {!imported && (
+          <button onClick={() => refresh()} disabled={refreshing} className={buttonClass} title="Fetch fresh map data now">
+            {refreshing ? 'REFRESHING...' : 'REFRESH'}
+          </button>
+        )}
+        <button
+          onClick={() => fileRef.current?.click()}
+          disabled={importing}
+          className={`${buttonClass} ${error ? 'border-red-500' : ''}`}
+          title="Load buildings and roads from an .osm, .osm.pbf or GeoJSON file"
+        >
+          {importing ? 'IMPORTING...' : 'IMPORT'}
+        </button>
+        {imported && (
+          <button onClick={() => clearImportedSite()} className={buttonClass} title="Drop the imported site and go back to online map data">
+            CLEAR
+          </button>
+        )}
+      </div>
+      {stored && (
+        <div className="text-gray-400">
+          Stored {stored.source === 'file' ? 'import' : 'OSM'} · {formatSize(stored.size)} · {formatAge(now - stored.savedAt)} old
+        </div>
+      )}
+      {storeError && (
+        <div className="text-amber-400" title={storeError.message}>
+          {storeErrorLabels[storeError.operation]} - {storeError.message}
+        </div>
+      )}
+      {siteFileError && !imported && (
+        <div className="text-red-400" title={siteFileError}>
+          Bundled site file failed - {siteFileError}
+        </div>
+      )}
+      {fetchError && !imported && (
+        <div className="text-amber-400" title={fetchError.message}>
+          {fetchErrorLabels[fetchError.kind]} - {source === 'fallback' ? 'showing built-in campus' : 'showing stored data'}
+        </div>
+      )}
+      {error && <div className="text-red-400">{error}</div>}
+      <input
+        ref={fileRef}
+        type="file"
+        accept={SITE_FILE_ACCEPT}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) loadFile(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
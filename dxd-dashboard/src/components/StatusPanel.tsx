@@ -1,16 +1,59 @@
-import type { Drone, Alert } from '../data/mockData';
+import { useState } from 'react';
+import type { Drone } from '../data/mockData';
+import type { SentryTower } from '../data/sentryTowers';
 import { statusColors, severityColors } from '../data/mockData';
+import { incidentTarget } from '../sim/sensorFusion';
+import type { DispatchSettings, Incident } from '../sim/engine';
+import { canCompleteRoundTrip, flightTimeRemaining } from '../sim/battery';
+import { routeLength } from '../sim/pathPlanner';
+import type { RoutePoint } from '../sim/pathPlanner';
+import type { DispatchCandidate } from '../sim/dispatchAdvisor';
+import { flightProfile } from '../data/droneConfigs';
+import { zoneColors } from '../data/geofences';
+import type { GeofenceZone } from '../data/geofences';
+import { zoneById } from '../sim/geofence';
+import { kmhToMs } from '../sim/geo';
+import {
+  canTransition,
+  incidentOutcomes,
+  incidentStatusColors,
+  incidentStatusLabels,
+  isAwaitingDispatch,
+} from '../sim/incidentLifecycle';
+import type { IncidentOutcome, IncidentStatus } from '../sim/incidentLifecycle';
+import { towerHealthColors, towerHealthLabels } from '../sim/towerHealth';
+import type { TowerHealthState } from '../sim/towerHealth';
+import DispatchControls from './DispatchControls';
 
 interface StatusPanelProps {
   drones: Drone[];
-  alert: Alert | null;
-  onDispatch: (droneId: string) => void;
-  onDispatchManual: (droneId: string) => void;
-  dispatchStatus: 'idle' | 'en_route' | 'on_scene';
+  routes: Record<string, RoutePoint[]>;
+  dispatchRankings: Record<string, DispatchCandidate[]>; // advisor picks per awaiting incident
+  incidents: Incident[]; // already sorted by priority and age
+  selectedAlertId: string | null;
+  now: Date;
+  time: number; // sim seconds - auto-dispatch deadlines are in sim time
+  dispatchSettings: DispatchSettings;
+  onSelectIncident: (alertId: string) => void;
+  onDispatch: (alertId: string, droneId: string) => void;
+  onDispatchManual: (alertId: string, droneId: string) => void;
+  onHoldAutoDispatch: (alertId: string) => void;
+  onSlewTowers: (alertId: string) => void; // lock the tower cameras in range onto the incident
+  onSetIncidentStatus: (alertId: string, status: IncidentStatus, note: string) => void;
+  onConfigureDispatch: (settings: Partial<DispatchSettings>) => void;
+  sentryTowers: SentryTower[];
+  towerHealth: Record<string, TowerHealthState>;
+  sentryPosts: Record<string, string>; // drone id -> tower it's standing in for
+  onSetTowerMaintenance: (towerId: string, maintenance: boolean) => void;
+}
+
+function formatFlightTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m` : `${Math.floor(seconds)}s`;
 }
 
-// Battery indicator component
-function BatteryIndicator({ level }: { level: number }) {
+// Battery indicator component - percentage plus estimated flight time to reserve
+function BatteryIndicator({ level, flightTime }: { level: number; flightTime: number }) {
   const getColor = () => {
     if (level > 50) return 'bg-green-500';
     if (level > 20) return 'bg-amber-500';
@@ -26,6 +69,9 @@ function BatteryIndicator({ level }: { level: number }) {
         />
       </div>
       <span className="text-xs text-gray-400 w-8">{Math.round(level)}%</span>
+      <span className="text-xs text-gray-500" title="Estimated flight time remaining">
+        ~{formatFlightTime(flightTime)}
+      </span>
     </div>
   );
 }
@@ -50,29 +96,276 @@ function StatusBadge({ status }: { status: Drone['status'] }) {
   );
 }
 
-export default function StatusPanel({ drones, alert, onDispatch, onDispatchManual, dispatchStatus }: StatusPanelProps) {
-  // Find nearest available drone to alert
-  const findNearestDrone = (): Drone | null => {
-    if (!alert) return null;
-
-    const availableDrones = drones.filter(d => d.status !== 'responding');
-    if (availableDrones.length === 0) return null;
-
-    return availableDrones.reduce((nearest, drone) => {
-      const currentDistance = Math.sqrt(
-        Math.pow(drone.lat - alert.lat, 2) +
-        Math.pow(drone.lng - alert.lng, 2)
-      );
-      const nearestDistance = Math.sqrt(
-        Math.pow(nearest.lat - alert.lat, 2) +
-        Math.pow(nearest.lng - alert.lng, 2)
-      );
-      return currentDistance < nearestDistance ? drone : nearest;
-    });
+// Seconds until the first assigned drone reaches the scene along its planned route
+function routeEta(assigned: Drone[], routes: Record<string, RoutePoint[]>): number | null {
+  const etas = assigned
+    .filter(d => routes[d.id])
+    .map(d => routeLength({ lat: d.lat, lng: d.lng, alt: d.altitude }, routes[d.id]) / kmhToMs(flightProfile.respondSpeed));
+  return etas.length > 0 ? Math.min(...etas) : null;
+}
+
+function formatAge(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+const outcomeButtonLabels: Record<IncidentOutcome, string> = {
+  resolved: 'RESOLVE',
+  false_alarm: 'FALSE ALARM',
+  escalated: 'ESCALATE',
+};
+
+// Single incident in the queue - click to make it the dispatch target
+function IncidentCard({
+  incident,
+  drones,
+  routes,
+  rankings,
+  now,
+  time,
+  isSelected,
+  onSelect,
+  onDispatch,
+  onHoldAutoDispatch,
+  onSlewTowers,
+  onSetStatus,
+}: {
+  incident: Incident;
+  drones: Drone[];
+  routes: Record<string, RoutePoint[]>;
+  rankings: DispatchCandidate[];
+  now: Date;
+  time: number;
+  isSelected: boolean;
+  onSelect: () => void;
+  onDispatch: (droneId: string) => void;
+  onHoldAutoDispatch: () => void;
+  onSlewTowers: () => void;
+  onSetStatus: (status: IncidentStatus, note: string) => void;
+}) {
+  const { alert, status } = incident;
+  const [note, setNote] = useState('');
+  const alertColor = severityColors[alert.severity];
+  const awaitingDispatch = isAwaitingDispatch(status);
+  // Advisor's top three by time to scene, while awaiting dispatch
+  const candidates = awaitingDispatch ? rankings.slice(0, 3) : [];
+  const recommended = candidates[0]?.drone ?? null;
+  const assigned = drones.filter(d => incident.droneIds.includes(d.id));
+  const eta = status === 'dispatched' ? routeEta(assigned, routes) : null;
+  const outcomes = incidentOutcomes.filter(outcome => canTransition(status, outcome));
+
+  const transition = (next: IncidentStatus) => {
+    onSetStatus(next, note);
+    setNote('');
   };
+  const alertZones = alert.zones.map(zoneById).filter((zone): zone is GeofenceZone => zone !== undefined);
+  const insidePerimeter = alertZones.some(zone => zone.type === 'perimeter');
+  // Interior zones only - the perimeter is shown as a suffix instead
+  const zones = alertZones.filter(zone => zone.type !== 'perimeter');
+
+  return (
+    <div
+      onClick={onSelect}
+      className={`p-3 rounded-lg border cursor-pointer ${isSelected ? 'ring-1 ring-white/60' : ''}`}
+      style={{
+        backgroundColor: `${alertColor}15`,
+        borderColor: alertColor,
+      }}
+    >
+      <div className="flex items-center gap-2 mb-2">
+        <svg
+          className="w-5 h-5 shrink-0"
+          fill={alertColor}
+          viewBox="0 0 20 20"
+        >
+          <path
+            fillRule="evenodd"
+            d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z"
+            clipRule="evenodd"
+          />
+        </svg>
+        <span
+          className="text-sm font-bold uppercase flex-1"
+          style={{ color: alertColor }}
+          title={incident.priorityFactors.map(f => `${f.label} +${f.points}`).join('\n')}
+        >
+          {alert.severity} Priority Alert · {alert.priority}
+        </span>
+        <span className="text-xs text-gray-400">{formatAge(now.getTime() - alert.timestamp.getTime())}</span>
+      </div>
+      <div className="mb-1">
+        <span
+          className="text-[10px] font-bold uppercase tracking-wide px-1.5 py-0.5 rounded border"
+          style={{ color: incidentStatusColors[status], borderColor: incidentStatusColors[status] }}
+        >
+          {incidentStatusLabels[status]}
+        </span>
+      </div>
+      <p className="text-white text-sm font-medium">
+        {alert.type.replace(/_/g, ' ').toUpperCase()}
+      </p>
+      <p className="text-gray-400 text-xs mt-1">
+        {alert.locationName}
+        {!insidePerimeter && ' - outside perimeter'}
+      </p>
+      <div className="flex items-center justify-between gap-2 text-xs text-gray-500">
+        <span>
+          {!incident.estimate
+            ? 'Unconfirmed - awaiting tower sweep'
+            : incident.estimate.detections.length > 1
+              ? `Tower fix from ${incident.estimate.detections.length} bearings ±${Math.round(incident.estimate.ellipse.semiMajor)}m`
+              : `Single-tower bearing ±${Math.round(incident.estimate.ellipse.semiMajor)}m`}
+        </span>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onSlewTowers();
+          }}
+          title="Lock every tower camera in range onto this incident"
+          className="px-2 py-0.5 rounded border border-gray-600 hover:bg-white/10 font-bold shrink-0"
+        >
+          SLEW TOWERS
+        </button>
+      </div>
+
+      {zones.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {zones.map(zone => (
+            <span
+              key={zone.id}
+              className="text-[10px] px-1.5 py-0.5 rounded border"
+              style={{ color: zoneColors[zone.type], borderColor: zoneColors[zone.type] }}
+            >
+              {zone.name}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {assigned.length > 0 && (
+        <p className="text-gray-400 text-xs mt-1">
+          Assigned: {assigned.map(d => d.name).join(', ')}
+        </p>
+      )}
+
+      {candidates.length > 0 && (
+        <div className="mt-2 space-y-0.5">
+          {candidates.map(({ drone, eta, batteryAtArrival }, i) => (
+            <div key={drone.id} className={`flex justify-between text-xs ${i === 0 ? 'text-white' : 'text-gray-500'}`}>
+              <span>{i + 1}. {drone.name}</span>
+              <span>ETA {Math.ceil(eta)}s - {Math.round(batteryAtArrival)}% on arrival</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {awaitingDispatch && recommended && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onDispatch(recommended.id);
+          }}
+          className="mt-3 w-full min-h-[44px] py-2.5 px-4 bg-red-600 hover:bg-red-700 text-white text-sm font-bold rounded transition-colors flex items-center justify-center gap-2"
+        >
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+          </svg>
+          DISPATCH NEAREST ({recommended.name.toUpperCase()})
+        </button>
+      )}
+
+      {awaitingDispatch && incident.autoDispatchAt !== null && (
+        <div className="mt-2 flex items-center justify-between text-xs text-amber-400">
+          <span>Auto-dispatch in {Math.max(0, Math.ceil(incident.autoDispatchAt - time))}s</span>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onHoldAutoDispatch();
+            }}
+            className="px-2 py-0.5 rounded border border-amber-500 hover:bg-amber-500/20 font-bold"
+          >
+            HOLD
+          </button>
+        </div>
+      )}
+
+      {status === 'dispatched' && (
+        <div className="mt-3 text-center text-yellow-400 text-sm font-medium">
+          Drone en route to location{eta !== null && ` - ETA ${Math.ceil(eta)}s`}
+        </div>
+      )}
+      {status === 'on_scene' && (
+        <div className="mt-3 text-center text-green-400 text-sm font-medium">
+          Drone on scene - holding until closed
+        </div>
+      )}
+
+      {/* Operator decisions - the note is recorded with whichever transition is made */}
+      <div className="mt-3 space-y-1.5" onClick={(e) => e.stopPropagation()}>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note (optional)"
+          className="w-full bg-[#0a0a12] border border-gray-700 rounded px-2 py-1 text-xs text-white placeholder-gray-600"
+        />
+        <div className="flex gap-1.5">
+          {status === 'new' && (
+            <button
+              onClick={() => transition('acknowledged')}
+              className="flex-1 py-1 text-xs font-bold rounded border border-amber-500 text-amber-400 hover:bg-amber-500/20"
+            >
+              ACKNOWLEDGE
+            </button>
+          )}
+          {outcomes.map(outcome => (
+            <button
+              key={outcome}
+              onClick={() => transition(outcome)}
+              className="flex-1 py-1 text-xs font-bold rounded border hover:bg-white/10"
+              style={{ color: incidentStatusColors[outcome], borderColor: incidentStatusColors[outcome] }}
+            >
+              {outcomeButtonLabels[outcome]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Who moved the incident along, and when */}
+      <div className="mt-2 space-y-0.5">
+        {incident.history.slice(1).map((entry, i) => (
+          <div key={i} className="text-[10px] text-gray-500 truncate">
+            {new Date(now.getTime() - (time - entry.at) * 1000).toLocaleTimeString()} {incidentStatusLabels[entry.status]} - {entry.by}
+            {entry.note && `: ${entry.note}`}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
 
-  const nearestDrone: Drone | null = alert ? findNearestDrone() : null;
-  const alertColor = severityColors[alert?.severity || 'high'];
+export default function StatusPanel({
+  drones,
+  routes,
+  dispatchRankings,
+  incidents,
+  selectedAlertId,
+  now,
+  time,
+  dispatchSettings,
+  onSelectIncident,
+  onDispatch,
+  onDispatchManual,
+  onHoldAutoDispatch,
+  onSlewTowers,
+  onSetIncidentStatus,
+  onConfigureDispatch,
+  sentryTowers,
+  towerHealth,
+  sentryPosts,
+  onSetTowerMaintenance,
+}: StatusPanelProps) {
+  const selectedIncident = incidents.find(i => i.alert.id === selectedAlertId) ?? null;
 
   return (
     <div className="h-full flex flex-col bg-[#12121a] lg:border-l border-t lg:border-t-0 border-gray-800 overflow-hidden">
@@ -89,65 +382,66 @@ export default function StatusPanel({ drones, alert, onDispatch, onDispatchManua
 
       {/* Scrollable content area - everything scrolls together on mobile */}
       <div className="flex-1 overflow-y-auto min-h-0">
-        {/* Alert Section */}
-        {alert && (
-          <div className="p-3 lg:p-4 border-b border-gray-800">
-          <div
-            className="p-3 rounded-lg border"
-            style={{
-              backgroundColor: `${alertColor}15`,
-              borderColor: alertColor,
-            }}
-          >
-            <div className="flex items-center gap-2 mb-2">
-              <svg
-                className="w-5 h-5 shrink-0"
-                fill={alertColor}
-                viewBox="0 0 20 20"
-              >
-                <path
-                  fillRule="evenodd"
-                  d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z"
-                  clipRule="evenodd"
-                />
-              </svg>
-              <span
-                className="text-sm font-bold uppercase"
-                style={{ color: alertColor }}
-              >
-                {alert.severity} Priority Alert
-              </span>
-            </div>
-            <p className="text-white text-sm font-medium">
-              {alert.type.replace(/_/g, ' ').toUpperCase()}
-            </p>
-            <p className="text-gray-400 text-xs mt-1">{alert.locationName}</p>
-
-            {nearestDrone && nearestDrone.status !== 'responding' && (
-              <button
-                onClick={() => onDispatch(nearestDrone.id)}
-                className="mt-3 w-full min-h-[44px] py-2.5 px-4 bg-red-600 hover:bg-red-700 text-white text-sm font-bold rounded transition-colors flex items-center justify-center gap-2"
-              >
-                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-                </svg>
-                DISPATCH NEAREST ({nearestDrone.name.toUpperCase()})
-              </button>
-            )}
-
-            {dispatchStatus === 'en_route' && (
-              <div className="mt-3 text-center text-yellow-400 text-sm font-medium">
-                Drone en route to location
-              </div>
-            )}
-            {dispatchStatus === 'on_scene' && (
-              <div className="mt-3 text-center text-green-400 text-sm font-medium">
-                Drone on scene - investigating
-              </div>
-            )}
+        <DispatchControls settings={dispatchSettings} onChange={onConfigureDispatch} />
+
+        {/* Incident Queue */}
+        {incidents.length > 0 && (
+          <div className="p-3 lg:p-4 border-b border-gray-800 space-y-2">
+            <h2 className="text-xs font-semibold text-gray-500 uppercase tracking-wider">
+              Open Incidents ({incidents.length})
+            </h2>
+            {incidents.map(incident => (
+              <IncidentCard
+                key={incident.alert.id}
+                incident={incident}
+                drones={drones}
+                routes={routes}
+                rankings={dispatchRankings[incident.alert.id] ?? []}
+                now={now}
+                time={time}
+                isSelected={incident.alert.id === selectedAlertId}
+                onSelect={() => onSelectIncident(incident.alert.id)}
+                onDispatch={(droneId) => onDispatch(incident.alert.id, droneId)}
+                onHoldAutoDispatch={() => onHoldAutoDispatch(incident.alert.id)}
+                onSlewTowers={() => onSlewTowers(incident.alert.id)}
+                onSetStatus={(status, note) => onSetIncidentStatus(incident.alert.id, status, note)}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Tower health - scheduled windows show as maintenance but can't be ended from here */}
+        <div className="p-3 lg:p-4 border-b border-gray-800">
+          <h2 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
+            Sentry Towers ({sentryTowers.filter(t => t.health === 'online').length}/{sentryTowers.length} online)
+          </h2>
+          <div className="space-y-1">
+            {sentryTowers.map(tower => {
+              const manual = towerHealth[tower.id]?.maintenance ?? false;
+              const color = towerHealthColors[tower.health];
+              const sentry = drones.find(d => d.status === 'sentry' && sentryPosts[d.id] === tower.id);
+              return (
+                <div key={tower.id} className="flex items-center gap-2 text-xs">
+                  <div className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: color }} />
+                  <span className="text-white flex-1 truncate">
+                    {tower.name}
+                    {sentry && <span className="text-gray-500"> - {sentry.name} covering</span>}
+                  </span>
+                  <span className="uppercase tracking-wide font-medium" style={{ color }}>
+                    {towerHealthLabels[tower.health]}
+                  </span>
+                  <button
+                    onClick={() => onSetTowerMaintenance(tower.id, !manual)}
+                    title={manual ? 'Return the tower to service' : 'Take the tower down for maintenance'}
+                    className="px-1.5 py-0.5 rounded border border-gray-600 text-gray-300 hover:bg-white/10 font-bold"
+                  >
+                    {manual ? 'RETURN' : 'MAINT'}
+                  </button>
+                </div>
+              );
+            })}
           </div>
         </div>
-      )}
 
         {/* Drone List */}
         <div className="p-3 lg:p-4">
@@ -157,9 +451,9 @@ export default function StatusPanel({ drones, alert, onDispatch, onDispatchManua
 
           <div className="space-y-2 lg:space-y-3">
             {drones.map((drone) => {
-              const canDispatch = alert &&
-                drone.status !== 'responding' &&
-                dispatchStatus === 'idle';
+              const canDispatch = selectedIncident !== null &&
+                drone.status !== 'responding';
+              const lowForTrip = canDispatch && !canCompleteRoundTrip(drone, incidentTarget(selectedIncident));
 
               return (
                 <div
@@ -191,7 +485,7 @@ export default function StatusPanel({ drones, alert, onDispatch, onDispatchManua
                   </div>
 
                   <div className="flex items-center justify-between">
-                    <BatteryIndicator level={drone.battery} />
+                    <BatteryIndicator level={drone.battery} flightTime={flightTimeRemaining(drone)} />
                     <div className="flex items-center gap-2">
                       {drone.speed > 0 && (
                         <span className="text-xs text-gray-400">
@@ -200,8 +494,10 @@ export default function StatusPanel({ drones, alert, onDispatch, onDispatchManua
                       )}
                       {canDispatch && (
                         <button
-                          onClick={() => onDispatchManual(drone.id)}
-                          className="min-h-[36px] min-w-[36px] lg:min-h-[40px] lg:min-w-[70px] px-2 lg:px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-xs font-bold rounded transition-colors"
+                          onClick={() => onDispatchManual(selectedIncident!.alert.id, drone.id)}
+                          disabled={lowForTrip}
+                          title={lowForTrip ? 'Insufficient battery for the round trip' : undefined}
+                          className="min-h-[36px] min-w-[36px] lg:min-h-[40px] lg:min-w-[70px] px-2 lg:px-3 py-1.5 bg-red-600 hover:bg-red-700 disabled:bg-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed text-white text-xs font-bold rounded transition-colors"
                         >
                           <span className="hidden lg:inline">Dispatch</span>
                           <svg className="w-4 h-4 lg:hidden" fill="none" stroke="currentColor" viewBox="0 0 24 24">
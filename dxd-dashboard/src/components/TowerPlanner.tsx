@@ -0,0 +1,146 @@
+import { useMemo, useState } from 'react';
+import { towerTypeSpecs } from '../data/sentryTowers';
+import type { SentryTower } from '../data/sentryTowers';
+import type { CoverageGrid } from '../sim/coverage';
+import type { SightObstacle } from '../sim/lineOfSight';
+import { optimizePlacement, scoreLayout } from '../sim/towerPlacement';
+import type { PlacementGoal, PlacementProposal } from '../sim/towerPlacement';
+
+interface TowerPlannerProps {
+  grid: CoverageGrid;
+  obstacles: SightObstacle[];
+  towers: SentryTower[];              // installed layout to compare against
+  proposal: PlacementProposal | null; // previewed in the scene while set
+  onProposalChange: (proposal: PlacementProposal | null) => void;
+  onAccept: (towers: SentryTower[]) => void;
+}
+
+const goalLabels: Record<PlacementGoal, string> = {
+  area: 'Covered area',
+  critical: 'Critical zones',
+};
+
+const towerTypes = Object.keys(towerTypeSpecs) as SentryTower['type'][];
+
+const inputClass = 'bg-[#1a1a2e] border border-gray-700 rounded px-1.5 py-0.5 text-xs text-white';
+
+// Tower layout optimizer - propose, preview in the scene, then accept or discard
+export default function TowerPlanner({ grid, obstacles, towers, proposal, onProposalChange, onAccept }: TowerPlannerProps) {
+  const [open, setOpen] = useState(false);
+  const [budget, setBudget] = useState(8);
+  const [types, setTypes] = useState<SentryTower['type'][]>(towerTypes);
+  const [goal, setGoal] = useState<PlacementGoal>('area');
+  const [optimizing, setOptimizing] = useState(false);
+
+  const current = useMemo(
+    () => (open ? scoreLayout(grid, towers, obstacles, goal) : null),
+    [open, grid, towers, obstacles, goal],
+  );
+
+  const toggleType = (type: SentryTower['type']) =>
+    setTypes(selected => (selected.includes(type) ? selected.filter(t => t !== type) : [...selected, type]));
+
+  // Runs on the main thread - yield first so the button shows progress
+  const optimize = () => {
+    setOptimizing(true);
+    setTimeout(() => {
+      onProposalChange(optimizePlacement(grid, obstacles, { budget, types, goal }));
+      setOptimizing(false);
+    }, 0);
+  };
+
+  const close = () => {
+    setOpen(false);
+    onProposalChange(null);
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="bg-black/60 text-white text-xs font-bold rounded px-2 py-1.5 hover:bg-black/80"
+      >
+        PLAN TOWERS
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-black/70 text-white text-xs rounded px-2 py-1.5 space-y-1.5 w-72">
+      <div className="flex items-center justify-between">
+        <span className="text-gray-400">TOWER PLANNER</span>
+        <button onClick={close} className="text-gray-400 hover:text-white font-bold">CLOSE</button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label className="flex items-center gap-1 text-gray-400">
+          Budget
+          <input
+            type="number"
+            min={1}
+            max={30}
+            value={budget}
+            onChange={(e) => setBudget(Math.max(1, Number(e.target.value)))}
+            className={`${inputClass} w-12`}
+          />
+        </label>
+        <select value={goal} onChange={(e) => setGoal(e.target.value as PlacementGoal)} className={`${inputClass} flex-1`}>
+          {(Object.keys(goalLabels) as PlacementGoal[]).map(option => (
+            <option key={option} value={option}>{goalLabels[option]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        {towerTypes.map(type => (
+          <label key={type} className="flex items-center gap-1 text-gray-300" title={`Costs ${towerTypeSpecs[type].cost}`}>
+            <input type="checkbox" checked={types.includes(type)} onChange={() => toggleType(type)} />
+            {type} ({towerTypeSpecs[type].cost})
+          </label>
+        ))}
+      </div>
+
+      <button
+        onClick={optimize}
+        disabled={optimizing || types.length === 0}
+        className="w-full py-1 rounded font-bold bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:text-gray-400"
+      >
+        {optimizing ? 'OPTIMIZING...' : 'OPTIMIZE'}
+      </button>
+
+      {current && (
+        <div className="text-gray-400">
+          Installed: {towers.length} towers - {Math.round(current.covered)}% covered
+          {goal === 'critical' && `, ${Math.round(current.weighted)}% weighted`}
+        </div>
+      )}
+
+      {proposal && (
+        <>
+          <div className="text-cyan-300">
+            Proposed: {proposal.towers.length} towers, cost {proposal.cost} - {Math.round(proposal.score.covered)}% covered
+            {goal === 'critical' && `, ${Math.round(proposal.score.weighted)}% weighted`}
+          </div>
+          <div className="flex gap-1.5">
+            <button
+              onClick={() => {
+                onAccept(proposal.towers);
+                onProposalChange(null);
+              }}
+              disabled={proposal.towers.length === 0}
+              className="flex-1 py-1 rounded font-bold border border-green-500 text-green-400 hover:bg-green-500/20 disabled:opacity-40"
+            >
+              ACCEPT
+            </button>
+            <button
+              onClick={() => onProposalChange(null)}
+              className="flex-1 py-1 rounded font-bold border border-gray-600 text-gray-300 hover:bg-white/10"
+            >
+              DISCARD
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+// Drone patrol configurations - 2 patrolling, 2 idle (landed on buildings)
+// Patrolling drones fly the named waypoint routes in patrolRoutes.ts
+
+export interface DroneConfig {
+  mode: 'patrol' | 'idle';
+  route?: string;                  // key into patrolRoutes
+  groundSpeed?: number;            // km/h
+  dwell?: number;                  // seconds held at each waypoint
+  pattern?: 'loop' | 'pingpong';   // wrap around, or reverse at the ends
+  pad?: string;                    // home landing pad id for idle drones
+}
+
+// Fleet-wide cruise speeds (km/h) for dispatch and return flights, and altitudes (m)
+export const flightProfile = {
+  respondSpeed: 65,
+  returnSpeed: 45,
+  patrolAltitude: 45,
+  investigateAltitude: 15,
+};
+
+export const droneConfigs: Record<string, DroneConfig> = {
+  'DXD-001': {
+    mode: 'patrol',
+    // North-east loop - Libraries and Computing Commons
+    route: 'DXD-001',
+    groundSpeed: 36,
+    dwell: 3,
+    pattern: 'loop',
+  },
+  'DXD-002': {
+    mode: 'idle',
+    // Landing pad: Fulton Center rooftop
+    pad: 'PAD-FULTON',
+  },
+  'DXD-003': {
+    mode: 'patrol',
+    // North sweep - Stadium and arena, back and forth
+    route: 'DXD-003',
+    groundSpeed: 30,
+    dwell: 5,
+    pattern: 'pingpong',
+  },
+  'DXD-004': {
+    mode: 'idle',
+    // Landing pad: Memorial Union rooftop
+    pad: 'PAD-MU',
+  },
+};
@@ -1,14 +1,26 @@
 // OpenStreetMap building and road data fetcher for ASU campus
 
+import { queryOverpass } from './overpassClient';
+import type { OverpassOptions } from './overpassClient';
+
+// Outline as mapped - outer ring plus any courtyards, without the closing point
+export interface BuildingFootprint {
+  outer: { lat: number; lng: number }[];
+  holes: { lat: number; lng: number }[][];
+}
+
 export interface OSMBuilding {
   id: number;
   name: string;
-  lat: number;
+  lat: number; // centroid
   lng: number;
-  width: number;
+  width: number; // bounding box, meters
   depth: number;
-  height: number;
+  height: number;     // meters to the top
+  minHeight?: number; // meters to the bottom of a raised building:part, e.g. an overhang
   color: string;
+  footprint?: BuildingFootprint; // absent for hand-placed buildings - they're their bounding box
+  roofShape?: string; // OSM roof:shape, kept for reference - roofs are drawn flat
 }
 
 export interface OSMRoad {
@@ -24,14 +36,24 @@ export interface OSMData {
   roads: OSMRoad[];
 }
 
+export interface SiteBounds {
+  south: number;
+  north: number;
+  west: number;
+  east: number;
+}
+
 // ASU Campus bounding box
-const BOUNDS = {
+const BOUNDS: SiteBounds = {
   south: 33.4130,
   north: 33.4280,
   west: -111.9450,
   east: -111.9250,
 };
 
+// Site the map data is for - stored data is keyed on the site and its bounds
+export const CAMPUS_SITE = { id: 'asu-tempe', bounds: BOUNDS };
+
 // Updated Overpass API query for buildings AND roads in ASU area
 const OVERPASS_QUERY = `
 [out:json][timeout:30];
@@ -39,6 +61,8 @@ const OVERPASS_QUERY = `
   // Buildings
   way["building"](${BOUNDS.south},${BOUNDS.west},${BOUNDS.north},${BOUNDS.east});
   relation["building"](${BOUNDS.south},${BOUNDS.west},${BOUNDS.north},${BOUNDS.east});
+  way["building:part"](${BOUNDS.south},${BOUNDS.west},${BOUNDS.north},${BOUNDS.east});
+  relation["building:part"](${BOUNDS.south},${BOUNDS.west},${BOUNDS.north},${BOUNDS.east});
 
   // Major roads
   way["highway"~"primary|secondary|tertiary|residential|service|footway|path"](${BOUNDS.south},${BOUNDS.west},${BOUNDS.north},${BOUNDS.east});
@@ -81,6 +105,10 @@ function estimateHeight(tags: Record<string, string>): number {
     if (!isNaN(h)) return h;
   }
 
+  // A part without a height can still say where it starts - stack the default on top
+  const base = estimateMinHeight(tags);
+  if (base > 0 && tags['building:levels'] === undefined) return base + 4;
+
   // Use building:levels if available (assume 4m per level)
   if (tags['building:levels']) {
     const levels = parseInt(tags['building:levels']);
@@ -99,6 +127,19 @@ function estimateHeight(tags: Record<string, string>): number {
   return 6;
 }
 
+// Where a building:part starts above the ground - zero for anything standing on it
+function estimateMinHeight(tags: Record<string, string>): number {
+  if (tags.min_height) {
+    const h = parseFloat(tags.min_height);
+    if (!isNaN(h)) return h;
+  }
+  if (tags['building:min_level']) {
+    const levels = parseInt(tags['building:min_level']);
+    if (!isNaN(levels)) return levels * 4;
+  }
+  return 0;
+}
+
 function getRoadWidth(tags: Record<string, string>): number {
   const type = tags.highway || '';
   switch (type) {
@@ -113,110 +154,204 @@ function getRoadWidth(tags: Record<string, string>): number {
   }
 }
 
-interface OSMElement {
+interface OSMMember {
+  type: string;
+  ref: number;
+  role: string;
+}
+
+export interface OSMElement {
   type: string;
   id: number;
   lat?: number;
   lon?: number;
   nodes?: number[];
+  members?: OSMMember[];
   tags?: Record<string, string>;
 }
 
-export async function fetchOSMBuildings(): Promise<OSMData> {
-  try {
-    const response = await fetch('https://overpass-api.de/api/interpreter', {
-      method: 'POST',
-      body: `data=${encodeURIComponent(OVERPASS_QUERY)}`,
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-    });
+type LatLngRing = { lat: number; lng: number }[];
 
-    if (!response.ok) {
-      throw new Error(`Overpass API error: ${response.status}`);
+// Join member ways end to end into closed rings of node ids. Consecutive ways may run in
+// either direction; anything that never closes is dropped.
+function assembleRings(ways: number[][]): number[][] {
+  const pending = ways.filter(way => way.length >= 2).map(way => [...way]);
+  const rings: number[][] = [];
+  while (pending.length > 0) {
+    const ring = pending.shift()!;
+    while (ring[0] !== ring[ring.length - 1]) {
+      const end = ring[ring.length - 1];
+      const i = pending.findIndex(way => way[0] === end || way[way.length - 1] === end);
+      if (i < 0) break;
+      const [next] = pending.splice(i, 1);
+      ring.push(...(next[0] === end ? next : next.reverse()).slice(1));
     }
+    if (ring.length >= 4 && ring[0] === ring[ring.length - 1]) rings.push(ring);
+  }
+  return rings;
+}
 
-    const data = await response.json();
+// Even-odd test in degrees - fine at building scale
+function ringContains(ring: LatLngRing, p: { lat: number; lng: number }): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[i];
+    const b = ring[j];
+    if ((a.lat > p.lat) !== (b.lat > p.lat) && p.lng < ((b.lng - a.lng) * (p.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
 
-    // Parse nodes into a lookup map
-    const nodes: Record<number, { lat: number; lon: number }> = {};
-    data.elements.forEach((el: OSMElement) => {
-      if (el.type === 'node' && el.lat !== undefined && el.lon !== undefined) {
-        nodes[el.id] = { lat: el.lat, lon: el.lon };
-      }
-    });
+// One footprint ring of a way or relation. osmId is the element's own id - a relation's
+// outlines are given ids of their own, which aren't anything a mapper would recognize.
+interface BuildingOutline {
+  id: number;
+  osmId: number;
+  tags: Record<string, string>;
+  footprint: BuildingFootprint;
+}
+
+// Outer rings with the inner rings that fall inside them, numbered down from id. Closed ways
+// list their first node again at the end - rings here don't.
+function buildingOutlines(
+  id: number,
+  osmId: number,
+  tags: Record<string, string>,
+  outers: LatLngRing[],
+  inners: LatLngRing[],
+): BuildingOutline[] {
+  return outers.map((outer, i) => ({
+    id: id - i,
+    osmId,
+    tags,
+    footprint: { outer, holes: inners.filter(inner => ringContains(outer, inner[0])) },
+  }));
+}
+
+function toBuilding({ id, osmId, tags, footprint }: BuildingOutline): OSMBuilding | null {
+  const { outer } = footprint;
+  const centroid = outer.reduce(
+    (acc, p) => ({ lat: acc.lat + p.lat / outer.length, lng: acc.lng + p.lng / outer.length }),
+    { lat: 0, lng: 0 },
+  );
+
+  // Convert to approximate meters (rough conversion for Arizona)
+  const latToMeters = 111000; // ~111km per degree latitude
+  const lonToMeters = 111000 * Math.cos(centroid.lat * Math.PI / 180);
+  const lats = outer.map((p) => p.lat);
+  const lngs = outer.map((p) => p.lng);
+  const width = (Math.max(...lngs) - Math.min(...lngs)) * lonToMeters;
+  const depth = (Math.max(...lats) - Math.min(...lats)) * latToMeters;
+
+  // Skip tiny buildings
+  if (width < 5 || depth < 5) return null;
+
+  const minHeight = estimateMinHeight(tags);
+  return {
+    id,
+    name: tags.name || `Building ${osmId}`,
+    lat: centroid.lat,
+    lng: centroid.lng,
+    width,
+    depth,
+    height: Math.max(estimateHeight(tags), minHeight + 1),
+    ...(minHeight > 0 && { minHeight }),
+    color: getBuildingColor(tags),
+    footprint,
+    ...(tags['roof:shape'] && { roofShape: tags['roof:shape'] }),
+  };
+}
+
+// Turn raw Overpass elements into buildings and roads. Buildings come from closed ways and
+// multipolygon relations, tagged building or building:part. Where a building has been split
+// into parts, the parts are drawn and the overall outline is dropped - it would hide them.
+export function parseOSMElements(elements: OSMElement[]): OSMData {
+  // Parse nodes into a lookup map
+  const nodes: Record<number, { lat: number; lon: number }> = {};
+  elements.forEach((el) => {
+    if (el.type === 'node' && el.lat !== undefined && el.lon !== undefined) {
+      nodes[el.id] = { lat: el.lat, lon: el.lon };
+    }
+  });
+
+  // Member ways come back a second time without tags - keep whichever copy has nodes
+  const wayNodes: Record<number, number[]> = {};
+  elements.forEach((el) => {
+    if (el.type === 'way' && el.nodes) wayNodes[el.id] = el.nodes;
+  });
+
+  const toPoints = (ids: number[]): LatLngRing => ids
+    .map((nodeId) => nodes[nodeId])
+    .filter((n): n is { lat: number; lon: number } => n !== undefined)
+    .map((n) => ({ lat: n.lat, lng: n.lon }));
+  const toRing = (ids: number[]): LatLngRing => {
+    const ring = toPoints(ids);
+    if (ids.length > 1 && ids[0] === ids[ids.length - 1]) ring.pop();
+    return ring;
+  };
+
+  const outlines: BuildingOutline[] = [];
+  const parts: BuildingOutline[] = [];
+  const roads: OSMRoad[] = [];
+
+  elements.forEach((el) => {
+    const tags = el.tags;
+    if (!tags) return;
+    const isPart = tags['building:part'] !== undefined && tags['building:part'] !== 'no';
+    const target = isPart ? parts : tags.building ? outlines : null;
 
     // Parse ways (buildings and roads)
-    const buildings: OSMBuilding[] = [];
-    const roads: OSMRoad[] = [];
-
-    data.elements.forEach((el: OSMElement) => {
-      if (el.type === 'way' && el.nodes) {
-        const nodeCoords = el.nodes
-          .map((nodeId: number) => nodes[nodeId])
-          .filter((n): n is { lat: number; lon: number } => n !== undefined);
-
-        // Parse buildings
-        if (el.tags?.building && nodeCoords.length >= 3) {
-          // Calculate centroid
-          const centroid = nodeCoords.reduce(
-            (acc, n) => ({
-              lat: acc.lat + n.lat / nodeCoords.length,
-              lon: acc.lon + n.lon / nodeCoords.length,
-            }),
-            { lat: 0, lon: 0 }
-          );
-
-          // Calculate bounding box for width/depth
-          const lats = nodeCoords.map((n) => n.lat);
-          const lons = nodeCoords.map((n) => n.lon);
-          const minLat = Math.min(...lats);
-          const maxLat = Math.max(...lats);
-          const minLon = Math.min(...lons);
-          const maxLon = Math.max(...lons);
-
-          // Convert to approximate meters (rough conversion for Arizona)
-          const latToMeters = 111000; // ~111km per degree latitude
-          const lonToMeters = 111000 * Math.cos(centroid.lat * Math.PI / 180);
-
-          const width = (maxLon - minLon) * lonToMeters;
-          const depth = (maxLat - minLat) * latToMeters;
-
-          // Skip tiny buildings
-          if (width < 5 || depth < 5) return;
-
-          buildings.push({
-            id: el.id,
-            name: el.tags.name || `Building ${el.id}`,
-            lat: centroid.lat,
-            lng: centroid.lon,
-            width: Math.min(width, 100), // Cap at 100m
-            depth: Math.min(depth, 100),
-            height: estimateHeight(el.tags),
-            color: getBuildingColor(el.tags),
-          });
-        }
-
-        // Parse roads
-        if (el.tags?.highway && nodeCoords.length >= 2) {
-          const points = nodeCoords.map((n) => ({ lat: n.lat, lng: n.lon }));
-
-          roads.push({
-            id: el.id,
-            name: el.tags.name || 'Unnamed Road',
-            type: el.tags.highway,
-            points,
-            width: getRoadWidth(el.tags),
-          });
-        }
+    if (el.type === 'way' && el.nodes) {
+      const ring = toRing(el.nodes);
+      if (target && ring.length >= 3) {
+        target.push(...buildingOutlines(el.id, el.id, tags, [ring], []));
       }
-    });
 
-    console.log(`Loaded ${buildings.length} buildings and ${roads.length} roads from OSM`);
-    return { buildings, roads };
+      // Parse roads
+      const points = toPoints(el.nodes);
+      if (tags.highway && points.length >= 2) {
+        roads.push({
+          id: el.id,
+          name: tags.name || 'Unnamed Road',
+          type: tags.highway,
+          points,
+          width: getRoadWidth(tags),
+        });
+      }
+    }
 
-  } catch (error) {
-    console.error('Failed to fetch OSM data:', error);
-    return { buildings: [], roads: [] };
-  }
+    // Multipolygon relations - stitch the member ways into outer and inner rings
+    if (el.type === 'relation' && el.members && target && tags.type === 'multipolygon') {
+      const ringsFor = (role: string) =>
+        assembleRings(
+          el.members!
+            .filter((m) => m.type === 'way' && m.role === role && wayNodes[m.ref])
+            .map((m) => wayNodes[m.ref]),
+        ).map(toRing).filter((ring) => ring.length >= 3);
+      // Relations and ways number separately, so relation outlines get negative ids - with
+      // room for one per outer ring
+      target.push(...buildingOutlines(-Math.abs(el.id) * 100, el.id, tags, ringsFor('outer'), ringsFor('inner')));
+    }
+  });
+
+  // An outline with a part inside it has been modeled in 3D - the parts replace it, and
+  // unnamed parts take its name
+  const partBuildings = parts.flatMap((part) => {
+    const building = toBuilding(part);
+    if (!building) return [];
+    const outline = part.tags.name ? undefined : outlines.find(({ footprint }) => ringContains(footprint.outer, building));
+    return [outline?.tags.name ? { ...building, name: outline.tags.name } : building];
+  });
+  const standalone = outlines
+    .filter(({ footprint }) => !partBuildings.some((part) => ringContains(footprint.outer, part)))
+    .map(toBuilding)
+    .filter((b): b is OSMBuilding => b !== null);
+  return { buildings: [...standalone, ...partBuildings], roads };
+}
+
+// Buildings and roads for the campus. Throws an OverpassError when no mirror can serve them.
+export async function fetchOSMBuildings(options?: Partial<OverpassOptions>): Promise<OSMData> {
+  return parseOSMElements(await queryOverpass(OVERPASS_QUERY, options));
 }
@@ -0,0 +1,55 @@
+// Geodata store - building and road data kept in IndexedDB, one record per site and bounding
+// box, so large sites fit and several can be cached side by side. Reads are structured clones
+// rather than a JSON parse of one big string. Bump SCHEMA_VERSION when OSMData changes shape;
+// the upgrade drops every stored record, since all of it can be fetched or imported again.
+
+import type { OSMData, SiteBounds } from './fetchOSMBuildings';
+import { openDatabase, runRequest } from './indexedDb';
+
+const DB_NAME = 'dxd-geodata';
+const SCHEMA_VERSION = 1;
+const STORE = 'sites';
+
+export interface GeodataRecord extends OSMData {
+  key: string;          // site id and bounds - see geodataKey
+  site: string;
+  bounds: SiteBounds;
+  source: 'osm' | 'file';
+  fileName: string | null; // for imported data
+  savedAt: number;      // ms since epoch
+  size: number;         // bytes, approximate
+}
+
+export function geodataKey(site: string, bounds: SiteBounds): string {
+  return `${site}@${bounds.south},${bounds.west},${bounds.north},${bounds.east}`;
+}
+
+const openStore = openDatabase(DB_NAME, SCHEMA_VERSION, database => {
+  if (database.objectStoreNames.contains(STORE)) database.deleteObjectStore(STORE);
+  database.createObjectStore(STORE, { keyPath: 'key' });
+});
+
+function run<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return runRequest(openStore, STORE, mode, operation);
+}
+
+export async function readGeodata(key: string): Promise<GeodataRecord | null> {
+  return (await run<GeodataRecord | undefined>('readonly', store => store.get(key))) ?? null;
+}
+
+export async function writeGeodata(
+  record: Omit<GeodataRecord, 'key' | 'savedAt' | 'size'>,
+): Promise<GeodataRecord> {
+  const stored: GeodataRecord = {
+    ...record,
+    key: geodataKey(record.site, record.bounds),
+    savedAt: Date.now(),
+    size: new Blob([JSON.stringify({ buildings: record.buildings, roads: record.roads })]).size,
+  };
+  await run('readwrite', store => store.put(stored));
+  return stored;
+}
+
+export async function deleteGeodata(key: string): Promise<void> {
+  await run('readwrite', store => store.delete(key));
+}
@@ -0,0 +1,81 @@
+// Geofence zones - arbitrary (possibly concave) polygons as [lat, lng] vertices
+// Zones may overlap; a point can sit in the perimeter and an interior zone at once.
+
+export type ZoneType = 'perimeter' | 'restricted' | 'no_fly' | 'privacy';
+
+export interface GeofenceZone {
+  id: string;
+  name: string;
+  type: ZoneType;
+  polygon: [number, number][];
+}
+
+export const geofenceZones: GeofenceZone[] = [
+  {
+    id: 'ZONE-PERIMETER',
+    name: 'Campus Perimeter',
+    type: 'perimeter',
+    // Follows Rural Road and University Drive - the south-east corner is cut back
+    polygon: [
+      [33.4277, -111.9425],  // NW corner
+      [33.4277, -111.9260],  // NE corner
+      [33.4170, -111.9260],
+      [33.4150, -111.9290],  // Rural Road cut-back
+      [33.4135, -111.9290],
+      [33.4135, -111.9425],  // SW corner
+    ],
+  },
+  {
+    id: 'ZONE-ENGINEERING',
+    name: 'Engineering Labs',
+    type: 'restricted',
+    polygon: [
+      [33.4222, -111.9330],
+      [33.4222, -111.9300],
+      [33.4200, -111.9300],
+      [33.4200, -111.9318],
+      [33.4208, -111.9330],
+    ],
+  },
+  {
+    id: 'ZONE-LIFE-SCIENCES',
+    name: 'Life Sciences Research',
+    type: 'no_fly',
+    // L-shaped around the biocontainment labs
+    polygon: [
+      [33.4225, -111.9405],
+      [33.4225, -111.9385],
+      [33.4210, -111.9385],
+      [33.4210, -111.9372],
+      [33.4195, -111.9372],
+      [33.4195, -111.9405],
+    ],
+  },
+  {
+    id: 'ZONE-RESIDENTIAL',
+    name: 'Residence Halls',
+    type: 'privacy',
+    polygon: [
+      [33.4168, -111.9365],
+      [33.4168, -111.9300],
+      [33.4140, -111.9300],
+      [33.4140, -111.9365],
+    ],
+  },
+];
+
+export const noFlyZones = geofenceZones.filter(z => z.type === 'no_fly');
+
+export const zoneTypeLabels: Record<ZoneType, string> = {
+  perimeter: 'Secured Perimeter',
+  restricted: 'Restricted',
+  no_fly: 'No-Fly',
+  privacy: 'Privacy / No-Loiter',
+};
+
+export const zoneColors: Record<ZoneType, string> = {
+  perimeter: '#ff3333',  // red
+  restricted: '#f97316', // orange
+  no_fly: '#a855f7',     // purple
+  privacy: '#38bdf8',    // sky blue
+};
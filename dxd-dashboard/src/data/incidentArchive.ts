@@ -0,0 +1,22 @@
+// Incident archive - closed incidents and their timelines kept in IndexedDB, so a shift can
+// still be reviewed after a reload or from a later session. Records are keyed by session and
+// alert id; Dates survive as structured clones.
+
+import type { IncidentRecord } from '../sim/incidentHistory';
+import { openDatabase, runRequest } from './indexedDb';
+
+const DB_NAME = 'dxd-incidents';
+const SCHEMA_VERSION = 1;
+const STORE = 'incidents';
+
+const openStore = openDatabase(DB_NAME, SCHEMA_VERSION, database => {
+  if (!database.objectStoreNames.contains(STORE)) database.createObjectStore(STORE, { keyPath: 'key' });
+});
+
+export function readIncidentArchive(): Promise<IncidentRecord[]> {
+  return runRequest<IncidentRecord[]>(openStore, STORE, 'readonly', store => store.getAll());
+}
+
+export async function archiveIncident(record: IncidentRecord): Promise<void> {
+  await runRequest(openStore, STORE, 'readwrite', store => store.put(record));
+}
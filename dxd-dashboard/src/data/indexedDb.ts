@@ -0,0 +1,42 @@
+// IndexedDB helpers shared by the local stores - one cached connection per database, and
+// single-request transactions that settle when the transaction does
+
+// Opens the database on first use. `upgrade` runs when the version is new to this browser.
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (database: IDBDatabase) => void,
+): () => Promise<IDBDatabase> {
+  let db: Promise<IDBDatabase> | null = null;
+  return () => {
+    db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        db = null;
+        reject(request.error);
+      };
+    });
+    return db;
+  };
+}
+
+// One request in its own transaction. Settles when the transaction does - a write whose
+// request succeeded can still be aborted on commit, e.g. when it would exceed the quota.
+export async function runRequest<T>(
+  open: () => Promise<IDBDatabase>,
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const database = await open();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    const fail = () => reject(transaction.error ?? request.error ?? new Error(`${storeName} transaction aborted`));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onabort = fail;
+    transaction.onerror = fail;
+  });
+}
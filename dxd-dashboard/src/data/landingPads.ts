@@ -0,0 +1,32 @@
+// Rooftop landing pads - drones land here when idle and recharge while parked
+export interface LandingPad {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  height: number; // roof height in meters
+}
+
+export const landingPads: LandingPad[] = [
+  {
+    id: 'PAD-FULTON',
+    name: 'Fulton Center',
+    lat: 33.4215,
+    lng: -111.9285,
+    height: 10,
+  },
+  {
+    id: 'PAD-MU',
+    name: 'Memorial Union',
+    lat: 33.4178,
+    lng: -111.9361,
+    height: 10,
+  },
+  {
+    id: 'PAD-STADIUM',
+    name: 'Sun Devil Stadium',
+    lat: 33.4262,
+    lng: -111.9338,
+    height: 15,
+  },
+];
@@ -4,7 +4,8 @@ export interface Drone {
   name: string;
   lat: number;
   lng: number;
-  status: 'patrolling' | 'responding' | 'idle' | 'returning';
+  altitude: number; // meters above ground
+  status: 'patrolling' | 'responding' | 'idle' | 'returning' | 'sentry';
   battery: number;
   speed: number;
   heading: number;
@@ -16,10 +17,12 @@ export interface Alert {
   lat: number;
   lng: number;
   type: 'perimeter_breach' | 'motion_detected' | 'unauthorized_access';
-  severity: 'low' | 'medium' | 'high';
+  severity: 'low' | 'medium' | 'high'; // banded from priority
+  priority: number;                     // 0-100 score from scoreAlert()
   timestamp: Date;
   description: string;
   locationName: string;
+  zones: string[]; // ids of the geofence zones the alert falls in
 }
 
 export interface LogEntry {
@@ -27,6 +30,7 @@ export interface LogEntry {
   timestamp: Date;
   type: 'patrol' | 'alert' | 'dispatch' | 'arrival' | 'system';
   message: string;
+  alertId?: string; // incident the entry belongs to
 }
 
 // ASU Campus alert locations - updated to match comprehensive campus
@@ -42,24 +46,29 @@ export const asuAlertLocations = [
 ];
 
 // Alert types for variety
-const alertTypes: { type: Alert['type']; description: string }[] = [
+export const alertTypes: { type: Alert['type']; description: string }[] = [
   { type: 'perimeter_breach', description: 'Perimeter breach detected' },
   { type: 'motion_detected', description: 'Suspicious motion detected' },
   { type: 'unauthorized_access', description: 'Unauthorized access attempt' },
 ];
 
 // Generate a random alert from ASU locations
-export function generateAlert(): Alert {
-  const location = asuAlertLocations[Math.floor(Math.random() * asuAlertLocations.length)];
-  const alertType = alertTypes[Math.floor(Math.random() * alertTypes.length)];
+// Randomness, id and timestamp are supplied by the caller so the simulation stays reproducible;
+// the caller also resolves which geofence zones the alert falls in and scores its priority
+export function generateAlert(
+  random: () => number,
+  id: string,
+  timestamp: Date,
+): Omit<Alert, 'zones' | 'severity' | 'priority'> {
+  const location = asuAlertLocations[Math.floor(random() * asuAlertLocations.length)];
+  const alertType = alertTypes[Math.floor(random() * alertTypes.length)];
 
   return {
-    id: `ALERT-${Date.now()}`,
+    id,
     lat: location.lat,
     lng: location.lng,
     type: alertType.type,
-    severity: 'high',
-    timestamp: new Date(),
+    timestamp,
     description: `${alertType.description} at ${location.name}`,
     locationName: location.name,
   };
@@ -73,6 +82,7 @@ export const initialDrones: Drone[] = [
     name: 'Alpha',
     lat: 33.4265,
     lng: -111.9325,
+    altitude: 45,
     status: 'patrolling',
     battery: 87,
     speed: 12,
@@ -82,19 +92,21 @@ export const initialDrones: Drone[] = [
   {
     id: 'DXD-002',
     name: 'Bravo',
-    lat: 33.4197,
-    lng: -111.9342,
+    lat: 33.4215,
+    lng: -111.9285,
+    altitude: 10,
     status: 'idle',
     battery: 95,
     speed: 0,
     heading: 0,
-    sector: 'Hayden Library',
+    sector: 'Fulton Center',
   },
   {
     id: 'DXD-003',
     name: 'Charlie',
     lat: 33.4188,
     lng: -111.9345,
+    altitude: 45,
     status: 'patrolling',
     battery: 72,
     speed: 12,
@@ -105,7 +117,8 @@ export const initialDrones: Drone[] = [
     id: 'DXD-004',
     name: 'Delta',
     lat: 33.4178,
-    lng: -111.9362,
+    lng: -111.9361,
+    altitude: 10,
     status: 'idle',
     battery: 64,
     speed: 0,
@@ -114,26 +127,6 @@ export const initialDrones: Drone[] = [
   },
 ];
 
-// Geofence boundary - secured perimeter polygon (expanded to cover full ASU campus)
-export const geofenceBoundary: [number, number][] = [
-  [33.4280, -111.9420],  // NW corner
-  [33.4280, -111.9260],  // NE corner
-  [33.4130, -111.9260],  // SE corner
-  [33.4130, -111.9420],  // SW corner
-];
-
-// Helper function to check if a point is inside the geofence
-export function isInsideGeofence(lat: number, lng: number): boolean {
-  const lats = geofenceBoundary.map(p => p[0]);
-  const lngs = geofenceBoundary.map(p => p[1]);
-  return (
-    lat >= Math.min(...lats) &&
-    lat <= Math.max(...lats) &&
-    lng >= Math.min(...lngs) &&
-    lng <= Math.max(...lngs)
-  );
-}
-
 // Map center point - ASU Tempe Campus (centered on expanded campus)
 export const mapCenter: [number, number] = [33.4200, -111.9340];
 export const mapZoom = 15;
@@ -144,6 +137,7 @@ export const statusColors = {
   responding: '#dc2626', // red
   idle: '#6b7280',       // gray
   returning: '#f59e0b',  // amber
+  sentry: '#8b5cf6',     // violet
 };
 
 export const severityColors = {
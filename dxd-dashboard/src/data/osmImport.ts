@@ -0,0 +1,155 @@
+// Offline site import - building and road data from a local file instead of Overpass, for
+// deployments with no internet access. OSM XML (.osm) and PBF (.osm.pbf) extracts are decoded
+// to OSM elements; GeoJSON features are turned into equivalent elements. Either way they go
+// through parseOSMElements, so buildings and roads follow the same rules as a live fetch.
+
+import { parseOSMElements } from './fetchOSMBuildings';
+import type { OSMData, OSMElement } from './fetchOSMBuildings';
+import { parseOsmPbf } from './osmPbf';
+
+export type SiteFileFormat = 'osm' | 'pbf' | 'geojson';
+
+export function siteFileFormat(fileName: string): SiteFileFormat | null {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.pbf')) return 'pbf';
+  if (name.endsWith('.osm') || name.endsWith('.xml')) return 'osm';
+  if (name.endsWith('.geojson') || name.endsWith('.json')) return 'geojson';
+  return null;
+}
+
+// Accepted by the file picker
+export const SITE_FILE_ACCEPT = '.osm,.xml,.pbf,.geojson,.json';
+
+function parseOsmXml(text: string): OSMElement[] {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror') || doc.documentElement.nodeName !== 'osm') {
+    throw new Error('Not an OSM XML file');
+  }
+
+  const tagsOf = (el: Element) => {
+    const tags = Array.from(el.getElementsByTagName('tag'));
+    return tags.length > 0
+      ? Object.fromEntries(tags.map(tag => [tag.getAttribute('k') ?? '', tag.getAttribute('v') ?? '']))
+      : undefined;
+  };
+
+  return Array.from(doc.documentElement.children).flatMap((el): OSMElement[] => {
+    const id = Number(el.getAttribute('id'));
+    switch (el.nodeName) {
+      case 'node':
+        return [{ type: 'node', id, lat: Number(el.getAttribute('lat')), lon: Number(el.getAttribute('lon')), tags: tagsOf(el) }];
+      case 'way':
+        return [{
+          type: 'way',
+          id,
+          nodes: Array.from(el.getElementsByTagName('nd')).map(nd => Number(nd.getAttribute('ref'))),
+          tags: tagsOf(el),
+        }];
+      case 'relation':
+        return [{
+          type: 'relation',
+          id,
+          members: Array.from(el.getElementsByTagName('member')).map(member => ({
+            type: member.getAttribute('type') ?? '',
+            ref: Number(member.getAttribute('ref')),
+            role: member.getAttribute('role') ?? '',
+          })),
+          tags: tagsOf(el),
+        }];
+      default:
+        return [];
+    }
+  });
+}
+
+type Position = [number, number]; // [lng, lat]
+
+interface GeoJSONFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: { type: string; coordinates: unknown } | null;
+  properties: Record<string, unknown> | null;
+}
+
+// Tags from feature properties - flat OSM-style keys, or nested under "tags" as some
+// exporters write them
+function featureTags(feature: GeoJSONFeature): Record<string, string> {
+  const props = feature.properties ?? {};
+  const source = typeof props.tags === 'object' && props.tags !== null ? props.tags as Record<string, unknown> : props;
+  return Object.fromEntries(
+    Object.entries(source)
+      .filter(([, v]) => typeof v === 'string' || typeof v === 'number')
+      .map(([k, v]) => [k, String(v)]),
+  );
+}
+
+// OSM id from an exporter's feature id like "way/123", if it has one
+function featureId(feature: GeoJSONFeature): number | null {
+  const match = String(feature.id ?? '').match(/(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+// Rebuild OSM elements from GeoJSON - polygons become closed ways, or multipolygon relations
+// when they have holes or several parts; lines become ways. Node and generated ids are
+// negative so they can't collide with real ones.
+function geoJsonElements(text: string): OSMElement[] {
+  const data = JSON.parse(text);
+  const features: GeoJSONFeature[] =
+    data?.type === 'FeatureCollection' && Array.isArray(data.features) ? data.features
+      : data?.type === 'Feature' ? [data]
+        : (() => { throw new Error('Not a GeoJSON feature collection'); })();
+
+  const elements: OSMElement[] = [];
+  let nextId = -1;
+
+  const addWay = (positions: Position[], tags?: Record<string, string>, id: number = nextId--): number => {
+    const nodes = positions.map(([lng, lat]) => {
+      const nodeId = nextId--;
+      elements.push({ type: 'node', id: nodeId, lat, lon: lng });
+      return nodeId;
+    });
+    // GeoJSON rings repeat their first position - close on the same node, as OSM does
+    const [first, last] = [positions[0], positions[positions.length - 1]];
+    if (positions.length > 3 && first[0] === last[0] && first[1] === last[1]) nodes[nodes.length - 1] = nodes[0];
+    elements.push({ type: 'way', id, nodes, tags });
+    return id;
+  };
+
+  for (const feature of features) {
+    const geometry = feature.geometry;
+    if (!geometry) continue;
+    const tags = featureTags(feature);
+    const id = featureId(feature) ?? nextId--;
+
+    if (geometry.type === 'LineString') {
+      addWay(geometry.coordinates as Position[], tags, id);
+    } else if (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') {
+      const polygons = (geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates) as Position[][][];
+      if (polygons.length === 1 && polygons[0].length === 1) {
+        addWay(polygons[0][0], tags, id);
+      } else {
+        const members = polygons.flatMap(rings => rings.map((ring, i) => ({
+          type: 'way',
+          ref: addWay(ring),
+          role: i === 0 ? 'outer' : 'inner',
+        })));
+        elements.push({ type: 'relation', id, members, tags: { ...tags, type: 'multipolygon' } });
+      }
+    }
+  }
+  return elements;
+}
+
+// Buildings and roads from a site file
+export async function importSiteFile(file: File): Promise<OSMData> {
+  const format = siteFileFormat(file.name);
+  let elements: OSMElement[];
+  if (format === 'pbf') elements = await parseOsmPbf(await file.arrayBuffer());
+  else if (format === 'osm') elements = parseOsmXml(await file.text());
+  else if (format === 'geojson') elements = geoJsonElements(await file.text());
+  else throw new Error(`Unsupported site file "${file.name}" - use .osm, .osm.pbf or .geojson`);
+
+  const data = parseOSMElements(elements);
+  if (data.buildings.length === 0) throw new Error(`No buildings found in ${file.name}`);
+  return data;
+}
@@ -0,0 +1,289 @@
+// OSM PBF decoder - turns an .osm.pbf extract into the same elements Overpass returns.
+// The file is a run of length-prefixed blobs, each a zlib-compressed protobuf PrimitiveBlock
+// of nodes (plain or dense), ways and relations. Only what building and road parsing needs
+// is decoded: ids, coordinates, node refs, members and tags - metadata is skipped.
+
+import type { OSMElement } from './fetchOSMBuildings';
+
+// Protobuf wire types
+const VARINT = 0;
+const FIXED64 = 1;
+const LENGTH_DELIMITED = 2;
+const FIXED32 = 5;
+
+const MEMBER_TYPES = ['node', 'way', 'relation'];
+
+const utf8 = new TextDecoder();
+
+// Cursor over a protobuf message
+interface Reader {
+  bytes: Uint8Array;
+  pos: number;
+  end: number;
+}
+
+function reader(bytes: Uint8Array): Reader {
+  return { bytes, pos: 0, end: bytes.length };
+}
+
+// Varints run to 64 bits - OSM ids pass 2^32, so accumulate in floating point, exact to 2^53
+function readVarint(r: Reader): number {
+  let value = 0;
+  let scale = 1;
+  for (;;) {
+    if (r.pos >= r.end) throw new Error('Truncated PBF message');
+    const byte = r.bytes[r.pos++];
+    value += (byte & 0x7f) * scale;
+    if (byte < 0x80) return value;
+    scale *= 128;
+  }
+}
+
+// A plain (not zigzag) int64 - negatives come through as ten-byte varints of 2^64 minus the
+// magnitude, past float precision, so they're accumulated exactly and wrapped to signed
+function readInt64(r: Reader): number {
+  let value = 0n;
+  let shift = 0n;
+  for (;;) {
+    if (r.pos >= r.end) throw new Error('Truncated PBF message');
+    const byte = r.bytes[r.pos++];
+    value |= BigInt(byte & 0x7f) << shift;
+    if (byte < 0x80) return Number(BigInt.asIntN(64, value));
+    shift += 7n;
+  }
+}
+
+function zigzag(n: number): number {
+  return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+}
+
+function readBytes(r: Reader): Uint8Array {
+  const length = readVarint(r);
+  const start = r.pos;
+  r.pos += length;
+  if (r.pos > r.end) throw new Error('Truncated PBF message');
+  return r.bytes.subarray(start, r.pos);
+}
+
+function skipField(r: Reader, wireType: number) {
+  if (wireType === VARINT) readVarint(r);
+  else if (wireType === FIXED64) r.pos += 8;
+  else if (wireType === LENGTH_DELIMITED) readBytes(r);
+  else if (wireType === FIXED32) r.pos += 4;
+  else throw new Error(`Unsupported protobuf wire type ${wireType}`);
+}
+
+// Visit each field of a message in turn; the visitor reads the value or returns false to skip it
+function eachField(bytes: Uint8Array, visit: (field: number, r: Reader, wireType: number) => boolean | void) {
+  const r = reader(bytes);
+  while (r.pos < r.end) {
+    const key = readVarint(r);
+    const field = Math.floor(key / 8);
+    const wireType = key % 8;
+    if (visit(field, r, wireType) === false) skipField(r, wireType);
+  }
+}
+
+// A repeated scalar - packed into one length-delimited run, or one value per field
+function readPacked(r: Reader, wireType: number, signed: boolean): number[] {
+  const decode = (raw: number) => (signed ? zigzag(raw) : raw);
+  if (wireType !== LENGTH_DELIMITED) return [decode(readVarint(r))];
+  const inner = reader(readBytes(r));
+  const values: number[] = [];
+  while (inner.pos < inner.end) values.push(decode(readVarint(inner)));
+  return values;
+}
+
+// Delta-coded runs store each value as the difference from the one before
+function undelta(values: number[]): number[] {
+  let running = 0;
+  return values.map(v => (running += v));
+}
+
+function tagsOf(keys: number[], vals: number[], strings: string[]): Record<string, string> | undefined {
+  if (keys.length === 0) return undefined;
+  return Object.fromEntries(keys.map((k, i) => [strings[k], strings[vals[i]]]));
+}
+
+interface BlockContext {
+  strings: string[];
+  granularity: number; // nanodegrees per coordinate unit
+  latOffset: number;   // nanodegrees
+  lonOffset: number;
+}
+
+function decodeNode(bytes: Uint8Array, ctx: BlockContext): OSMElement {
+  let id = 0, lat = 0, lon = 0;
+  let keys: number[] = [], vals: number[] = [];
+  eachField(bytes, (field, r, wireType) => {
+    if (field === 1) id = zigzag(readVarint(r));
+    else if (field === 2) keys = keys.concat(readPacked(r, wireType, false));
+    else if (field === 3) vals = vals.concat(readPacked(r, wireType, false));
+    else if (field === 8) lat = zigzag(readVarint(r));
+    else if (field === 9) lon = zigzag(readVarint(r));
+    else return false;
+  });
+  return {
+    type: 'node',
+    id,
+    lat: (ctx.latOffset + ctx.granularity * lat) * 1e-9,
+    lon: (ctx.lonOffset + ctx.granularity * lon) * 1e-9,
+    tags: tagsOf(keys, vals, ctx.strings),
+  };
+}
+
+// Dense nodes - parallel delta-coded arrays, with every node's tags in one run of key/value
+// string indices, each node's list ended by a 0
+function decodeDenseNodes(bytes: Uint8Array, ctx: BlockContext): OSMElement[] {
+  let ids: number[] = [], lats: number[] = [], lons: number[] = [], keysVals: number[] = [];
+  eachField(bytes, (field, r, wireType) => {
+    if (field === 1) ids = readPacked(r, wireType, true);
+    else if (field === 8) lats = readPacked(r, wireType, true);
+    else if (field === 9) lons = readPacked(r, wireType, true);
+    else if (field === 10) keysVals = readPacked(r, wireType, false);
+    else return false;
+  });
+
+  ids = undelta(ids);
+  lats = undelta(lats);
+  lons = undelta(lons);
+  let kv = 0;
+  return ids.map((id, i) => {
+    const tags: Record<string, string> = {};
+    let tagged = false;
+    while (kv < keysVals.length && keysVals[kv] !== 0) {
+      tags[ctx.strings[keysVals[kv]]] = ctx.strings[keysVals[kv + 1]];
+      tagged = true;
+      kv += 2;
+    }
+    kv++;
+    return {
+      type: 'node',
+      id,
+      lat: (ctx.latOffset + ctx.granularity * lats[i]) * 1e-9,
+      lon: (ctx.lonOffset + ctx.granularity * lons[i]) * 1e-9,
+      tags: tagged ? tags : undefined,
+    };
+  });
+}
+
+function decodeWay(bytes: Uint8Array, ctx: BlockContext): OSMElement {
+  let id = 0;
+  let keys: number[] = [], vals: number[] = [], refs: number[] = [];
+  eachField(bytes, (field, r, wireType) => {
+    if (field === 1) id = readVarint(r);
+    else if (field === 2) keys = keys.concat(readPacked(r, wireType, false));
+    else if (field === 3) vals = vals.concat(readPacked(r, wireType, false));
+    else if (field === 8) refs = refs.concat(readPacked(r, wireType, true));
+    else return false;
+  });
+  return { type: 'way', id, nodes: undelta(refs), tags: tagsOf(keys, vals, ctx.strings) };
+}
+
+function decodeRelation(bytes: Uint8Array, ctx: BlockContext): OSMElement {
+  let id = 0;
+  let keys: number[] = [], vals: number[] = [], roles: number[] = [], memids: number[] = [], types: number[] = [];
+  eachField(bytes, (field, r, wireType) => {
+    if (field === 1) id = readVarint(r);
+    else if (field === 2) keys = keys.concat(readPacked(r, wireType, false));
+    else if (field === 3) vals = vals.concat(readPacked(r, wireType, false));
+    else if (field === 8) roles = roles.concat(readPacked(r, wireType, false));
+    else if (field === 9) memids = memids.concat(readPacked(r, wireType, true));
+    else if (field === 10) types = types.concat(readPacked(r, wireType, false));
+    else return false;
+  });
+  const refs = undelta(memids);
+  return {
+    type: 'relation',
+    id,
+    members: refs.map((ref, i) => ({ type: MEMBER_TYPES[types[i]] ?? 'node', ref, role: ctx.strings[roles[i]] ?? '' })),
+    tags: tagsOf(keys, vals, ctx.strings),
+  };
+}
+
+function decodePrimitiveBlock(bytes: Uint8Array): OSMElement[] {
+  const ctx: BlockContext = { strings: [], granularity: 100, latOffset: 0, lonOffset: 0 };
+  const groups: Uint8Array[] = [];
+  eachField(bytes, (field, r) => {
+    if (field === 1) {
+      eachField(readBytes(r), (f, inner) => {
+        if (f !== 1) return false;
+        ctx.strings.push(utf8.decode(readBytes(inner)));
+      });
+    } else if (field === 2) groups.push(readBytes(r));
+    else if (field === 17) ctx.granularity = readVarint(r);
+    else if (field === 19) ctx.latOffset = readInt64(r);
+    else if (field === 20) ctx.lonOffset = readInt64(r);
+    else return false;
+  });
+
+  // The string table and offsets may follow the groups, so groups are decoded last
+  const elements: OSMElement[] = [];
+  for (const group of groups) {
+    eachField(group, (field, r) => {
+      if (field === 1) elements.push(decodeNode(readBytes(r), ctx));
+      else if (field === 2) {
+        // Dense groups run to thousands of nodes - too many to spread into push's arguments
+        for (const node of decodeDenseNodes(readBytes(r), ctx)) elements.push(node);
+      }
+      else if (field === 3) elements.push(decodeWay(readBytes(r), ctx));
+      else if (field === 4) elements.push(decodeRelation(readBytes(r), ctx));
+      else return false;
+    });
+  }
+  return elements;
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Blob payload - stored raw or zlib-compressed; LZMA and zstd blobs aren't supported
+async function blobData(bytes: Uint8Array): Promise<Uint8Array> {
+  let raw: Uint8Array | null = null;
+  let zlib: Uint8Array | null = null;
+  let other = false;
+  eachField(bytes, (field, r) => {
+    if (field === 1) raw = readBytes(r);
+    else if (field === 3) zlib = readBytes(r);
+    else if (field === 2) return false;
+    else {
+      other = true;
+      return false;
+    }
+  });
+  if (raw) return raw;
+  if (zlib) return inflate(zlib);
+  throw new Error(other ? 'PBF blob compression not supported - re-export with zlib' : 'Empty PBF blob');
+}
+
+export async function parseOsmPbf(buffer: ArrayBuffer): Promise<OSMElement[]> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  const elements: OSMElement[] = [];
+  let pos = 0;
+
+  while (pos < bytes.length) {
+    if (pos + 4 > bytes.length) throw new Error('Truncated PBF file');
+    const headerLength = view.getInt32(pos);
+    pos += 4;
+
+    let type = '';
+    let dataSize = 0;
+    eachField(bytes.subarray(pos, pos + headerLength), (field, r) => {
+      if (field === 1) type = utf8.decode(readBytes(r));
+      else if (field === 3) dataSize = readVarint(r);
+      else return false;
+    });
+    pos += headerLength;
+    if (pos + dataSize > bytes.length) throw new Error('Truncated PBF file');
+
+    const blob = bytes.subarray(pos, pos + dataSize);
+    pos += dataSize;
+    if (type === 'OSMData') {
+      for (const element of decodePrimitiveBlock(await blobData(blob))) elements.push(element);
+    } else if (type !== 'OSMHeader') throw new Error(`Not an OSM PBF file (blob type "${type}")`);
+  }
+  return elements;
+}
@@ -0,0 +1,167 @@
+// Overpass API client - runs a query against a list of mirrors until one answers with valid
+// data. Each request has a timeout. Rate limiting (429) and gateway timeouts (504) back off
+// exponentially and retry the same mirror; network failures, other server errors and bad
+// responses move on to the next. A rejected query (400) is the same on every mirror, so it
+// fails at once.
+
+import type { OSMElement } from './fetchOSMBuildings';
+
+export type OverpassErrorKind =
+  | 'timeout'   // no response within the timeout
+  | 'network'   // request failed - offline, DNS, CORS
+  | 'http'      // server answered with an error status
+  | 'query'     // the query itself was rejected
+  | 'invalid'   // answered 200 with something that isn't Overpass JSON, or a runtime error
+  | 'aborted';  // cancelled by the caller
+
+export class OverpassError extends Error {
+  readonly kind: OverpassErrorKind;
+  readonly endpoint: string | null;
+  readonly status: number | null;
+
+  constructor(kind: OverpassErrorKind, message: string, endpoint: string | null = null, status: number | null = null) {
+    super(message);
+    this.name = 'OverpassError';
+    this.kind = kind;
+    this.endpoint = endpoint;
+    this.status = status;
+  }
+}
+
+// Public instances, tried in order. VITE_OVERPASS_URLS (comma-separated) replaces the list -
+// point it at a local stand-in server (npm run mock-overpass) for offline testing.
+export const OVERPASS_ENDPOINTS: string[] = (
+  import.meta.env.VITE_OVERPASS_URLS as string | undefined
+)?.split(',').map(url => url.trim()).filter(Boolean) ?? [
+  'https://overpass-api.de/api/interpreter',
+  'https://overpass.kumi.systems/api/interpreter',
+  'https://overpass.private.coffee/api/interpreter',
+];
+
+export interface OverpassOptions {
+  endpoints: string[];
+  timeout: number;   // ms per request
+  retries: number;   // extra attempts per mirror on 429 / 504
+  backoff: number;   // ms before the first retry, doubling after
+  signal?: AbortSignal;
+}
+
+const DEFAULT_OPTIONS: OverpassOptions = {
+  endpoints: OVERPASS_ENDPOINTS,
+  timeout: 45000, // the query's own [timeout:30] plus transfer
+  retries: 2,
+  backoff: 2000,
+};
+
+const RETRY_STATUSES = [429, 504];
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new OverpassError('aborted', 'Overpass request cancelled'));
+      return;
+    }
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new OverpassError('aborted', 'Overpass request cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+}
+
+// Overpass reports query timeouts and memory exhaustion in a 200 response's remark
+function validate(data: unknown, endpoint: string): OSMElement[] {
+  const body = data as { elements?: unknown; remark?: unknown } | null;
+  if (!body || !Array.isArray(body.elements)) {
+    throw new OverpassError('invalid', `${endpoint} returned no elements`, endpoint);
+  }
+  if (typeof body.remark === 'string' && /runtime error/i.test(body.remark)) {
+    throw new OverpassError('invalid', `${endpoint}: ${body.remark}`, endpoint);
+  }
+  return body.elements as OSMElement[];
+}
+
+// One request to one mirror
+async function request(endpoint: string, query: string, { timeout, signal }: OverpassOptions): Promise<OSMElement[]> {
+  // An abort event already fired won't fire again, so the fetch would only end on the timer
+  if (signal?.aborted) throw new OverpassError('aborted', 'Overpass request cancelled', endpoint);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel, { once: true });
+
+  try {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        body: `data=${encodeURIComponent(query)}`,
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        signal: controller.signal,
+      });
+    } catch (e) {
+      if (signal?.aborted) throw new OverpassError('aborted', 'Overpass request cancelled', endpoint);
+      if (controller.signal.aborted) throw new OverpassError('timeout', `${endpoint} timed out after ${timeout / 1000}s`, endpoint);
+      throw new OverpassError('network', `${endpoint} unreachable: ${e instanceof Error ? e.message : e}`, endpoint);
+    }
+
+    if (response.status === 400) {
+      throw new OverpassError('query', `Overpass rejected the query: ${(await response.text()).slice(0, 200)}`, endpoint, 400);
+    }
+    if (!response.ok) {
+      throw new OverpassError('http', `${endpoint} responded ${response.status}`, endpoint, response.status);
+    }
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch {
+      if (signal?.aborted) throw new OverpassError('aborted', 'Overpass request cancelled', endpoint);
+      if (controller.signal.aborted) {
+        throw new OverpassError('timeout', `${endpoint} timed out after ${timeout / 1000}s`, endpoint);
+      }
+      throw new OverpassError('invalid', `${endpoint} returned malformed JSON`, endpoint);
+    }
+    return validate(data, endpoint);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+// Elements for a query from the first mirror that answers properly. Throws the last
+// mirror's OverpassError when none do.
+export async function queryOverpass(query: string, options: Partial<OverpassOptions> = {}): Promise<OSMElement[]> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  if (opts.endpoints.length === 0) throw new OverpassError('network', 'No Overpass endpoints configured');
+
+  let lastError: OverpassError | null = null;
+  for (const endpoint of opts.endpoints) {
+    for (let attempt = 0; attempt <= opts.retries; attempt++) {
+      try {
+        return await request(endpoint, query, opts);
+      } catch (e) {
+        const error = e instanceof OverpassError ? e : new OverpassError('network', String(e), endpoint);
+        if (error.kind === 'aborted' || error.kind === 'query') throw error;
+        lastError = error;
+        const retryable = error.status !== null && RETRY_STATUSES.includes(error.status);
+        if (!retryable || attempt === opts.retries) break;
+        await sleep(opts.backoff * 2 ** attempt, opts.signal);
+      }
+    }
+  }
+
+  const tried = opts.endpoints.length;
+  throw new OverpassError(
+    lastError?.kind ?? 'network',
+    tried > 1 ? `All ${tried} Overpass servers failed - last: ${lastError?.message}` : lastError?.message ?? 'Overpass failed',
+    lastError?.endpoint ?? null,
+    lastError?.status ?? null,
+  );
+}
@@ -1,5 +1,11 @@
-// ASU Campus patrol routes
-export const patrolRoutes: Record<string, { lat: number; lng: number; name: string }[]> = {
+export interface Waypoint {
+  lat: number;
+  lng: number;
+  name: string;
+}
+
+// ASU Campus patrol routes - named waypoint loops, referenced by droneConfigs
+export const patrolRoutes: Record<string, Waypoint[]> = {
   'DXD-001': [
     { lat: 33.4242, lng: -111.9281, name: 'Hayden Library' },
     { lat: 33.4260, lng: -111.9300, name: 'Noble Library' },
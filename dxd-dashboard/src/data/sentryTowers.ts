@@ -2,11 +2,33 @@ export interface SentryTower {
   id: string;
   name: string;
   position: { lat: number; lng: number };
-  detectionRadius: number; // in meters
+  detectionRadius: number; // camera range in meters - elevated towers see further
   status: 'active' | 'alert' | 'offline';
+  health: 'online' | 'degraded' | 'offline' | 'maintenance'; // as last reported - see towerHealth.ts
   type: 'standard' | 'elevated' | 'mobile';
+  fov: number;        // horizontal field of view in degrees
+  panCenter: number;  // compass heading the pan range is centered on
+  panRange: number;   // total pan travel in degrees - 360 rotates continuously
+  sweepRate: number;  // degrees per second
+  pan: number;        // current camera heading
+  sweepDirection: 1 | -1;
+  panLock: { lat: number; lng: number } | null; // point the operator froze the camera on
 }
 
+// What a new tower of each build gets - cost is in budget units for layout planning. Ranges
+// match the installed towers of the same build, so proposals compete on placement, not reach.
+export const towerTypeSpecs: Record<SentryTower['type'], {
+  detectionRadius: number;
+  fov: number;
+  panRange: number;
+  sweepRate: number;
+  cost: number;
+}> = {
+  standard: { detectionRadius: 90, fov: 50, panRange: 180, sweepRate: 15, cost: 1 },
+  elevated: { detectionRadius: 110, fov: 60, panRange: 360, sweepRate: 20, cost: 2 },
+  mobile: { detectionRadius: 75, fov: 70, panRange: 360, sweepRate: 30, cost: 1 },
+};
+
 // Strategic tower placements - positioned inside campus perimeter
 // Campus bounds: Lat 33.414-33.426, Lng -111.940 to -111.927
 export const initialSentryTowers: SentryTower[] = [
@@ -16,7 +38,15 @@ export const initialSentryTowers: SentryTower[] = [
     position: { lat: 33.4215, lng: -111.9290 },  // Near Fulton/Engineering
     detectionRadius: 100,
     status: 'active',
+    health: 'online',
     type: 'elevated',
+    fov: 60,
+    panCenter: 225,
+    panRange: 360,
+    sweepRate: 20,
+    pan: 225,
+    sweepDirection: 1,
+    panLock: null,
   },
   {
     id: 'ST-002',
@@ -24,7 +54,15 @@ export const initialSentryTowers: SentryTower[] = [
     position: { lat: 33.4250, lng: -111.9340 },  // Near Sun Devil Stadium
     detectionRadius: 120,
     status: 'active',
+    health: 'online',
     type: 'elevated',
+    fov: 60,
+    panCenter: 180,
+    panRange: 360,
+    sweepRate: 20,
+    pan: 180,
+    sweepDirection: 1,
+    panLock: null,
   },
   {
     id: 'ST-003',
@@ -32,7 +70,15 @@ export const initialSentryTowers: SentryTower[] = [
     position: { lat: 33.4155, lng: -111.9385 },  // Near Gammage Auditorium
     detectionRadius: 80,
     status: 'active',
+    health: 'online',
     type: 'standard',
+    fov: 50,
+    panCenter: 225,
+    panRange: 180,
+    sweepRate: 15,
+    pan: 225,
+    sweepDirection: 1,
+    panLock: null,
   },
   {
     id: 'ST-004',
@@ -40,7 +86,15 @@ export const initialSentryTowers: SentryTower[] = [
     position: { lat: 33.4180, lng: -111.9340 },  // Near Hayden Library
     detectionRadius: 90,
     status: 'active',
+    health: 'online',
     type: 'standard',
+    fov: 50,
+    panCenter: 0,
+    panRange: 240,
+    sweepRate: 15,
+    pan: 0,
+    sweepDirection: 1,
+    panLock: null,
   },
   {
     id: 'ST-005',
@@ -48,7 +102,15 @@ export const initialSentryTowers: SentryTower[] = [
     position: { lat: 33.4190, lng: -111.9380 },  // Near Biodesign/Life Sciences
     detectionRadius: 100,
     status: 'active',
+    health: 'online',
     type: 'elevated',
+    fov: 60,
+    panCenter: 90,
+    panRange: 360,
+    sweepRate: 20,
+    pan: 90,
+    sweepDirection: 1,
+    panLock: null,
   },
   {
     id: 'ST-006',
@@ -56,6 +118,20 @@ export const initialSentryTowers: SentryTower[] = [
     position: { lat: 33.4148, lng: -111.9320 },  // Near Barrett/Hassayampa
     detectionRadius: 90,
     status: 'active',
+    health: 'online',
     type: 'standard',
+    fov: 50,
+    panCenter: 180,
+    panRange: 180,
+    sweepRate: 15,
+    pan: 180,
+    sweepDirection: 1,
+    panLock: null,
   },
 ];
+
+// Scheduled daily maintenance, on the site clock - the tower is powered down for the window
+export const maintenanceWindows: { towerId: string; start: string; minutes: number }[] = [
+  { towerId: 'ST-003', start: '03:00', minutes: 45 },
+  { towerId: 'ST-006', start: '03:45', minutes: 30 },
+];
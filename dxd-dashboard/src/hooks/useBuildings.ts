@@ -1,91 +1,167 @@
-import { useState, useEffect } from 'react';
-import { fetchOSMBuildings } from '../data/fetchOSMBuildings';
-import type { OSMBuilding, OSMRoad } from '../data/fetchOSMBuildings';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { CAMPUS_SITE, fetchOSMBuildings } from '../data/fetchOSMBuildings';
+import type { OSMBuilding, OSMData, OSMRoad } from '../data/fetchOSMBuildings';
 import { fallbackBuildings } from '../data/fallbackBuildings';
+import { importSiteFile } from '../data/osmImport';
+import { OverpassError } from '../data/overpassClient';
+import { deleteGeodata, geodataKey, readGeodata, writeGeodata } from '../data/geodataStore';
+import type { GeodataRecord } from '../data/geodataStore';
 
-// Versioned cache key - increment when data structure changes
-const CACHE_KEY = 'asu-osm-data-v2';
-const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+// Stored OSM data older than this is still shown, but refetched in the background
+const MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours
 
-interface CachedData {
-  buildings: OSMBuilding[];
-  roads: OSMRoad[];
-  timestamp: number;
+// localStorage keys from before the IndexedDB store - removed on load
+const LEGACY_KEYS = ['asu-osm-buildings', 'asu-osm-data-v2', 'asu-osm-data-v3', 'dxd-site-dataset-v1'];
+
+// Site file shipped with the build for air-gapped deployments - a path under public/ or a URL
+const BUILD_SITE_FILE: string | undefined = import.meta.env.VITE_SITE_FILE;
+
+const SITE_KEY = geodataKey(CAMPUS_SITE.id, CAMPUS_SITE.bounds);
+
+// What the cache inspector shows about the stored copy
+export type StoredGeodata = Pick<GeodataRecord, 'source' | 'fileName' | 'savedAt' | 'size'>;
+
+// A stored copy that couldn't be read or saved - the site data in use is unaffected
+export interface StoreError {
+  operation: 'read' | 'write';
+  message: string;
+}
+
+// The build's bundled site file, if it has one
+async function loadBuildSiteFile(): Promise<{ data: OSMData; name: string } | null> {
+  if (!BUILD_SITE_FILE) return null;
+  const url = /^[a-z]+:/i.test(BUILD_SITE_FILE) ? BUILD_SITE_FILE : `${import.meta.env.BASE_URL}${BUILD_SITE_FILE.replace(/^\//, '')}`;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Site file ${BUILD_SITE_FILE}: ${response.status}`);
+  const name = BUILD_SITE_FILE.split('/').pop() ?? BUILD_SITE_FILE;
+  return { data: await importSiteFile(new File([await response.blob()], name)), name };
+}
+
+function describe({ source, fileName, savedAt, size }: StoredGeodata): StoredGeodata {
+  return { source, fileName, savedAt, size };
 }
 
 export function useBuildings() {
   const [buildings, setBuildings] = useState<OSMBuilding[]>([]);
   const [roads, setRoads] = useState<OSMRoad[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [source, setSource] = useState<'osm' | 'cache' | 'fallback'>('fallback');
+  const [source, setSource] = useState<'osm' | 'cache' | 'file' | 'fallback'>('fallback');
+  const [stored, setStored] = useState<StoredGeodata | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [fetchError, setFetchError] = useState<OverpassError | null>(null); // last OSM fetch, if it failed
+  const [siteFileError, setSiteFileError] = useState<string | null>(null); // bundled site file that couldn't be used
+  const [storeError, setStoreError] = useState<StoreError | null>(null);
+  const refreshingRef = useRef(false);
 
-  useEffect(() => {
-    async function loadBuildings() {
-      // Try cache first
-      try {
-        const cached = localStorage.getItem(CACHE_KEY);
-        if (cached) {
-          const data: CachedData = JSON.parse(cached);
-          if (Date.now() - data.timestamp < CACHE_DURATION) {
-            console.log(`Using cached OSM data: ${data.buildings.length} buildings, ${data.roads?.length || 0} roads`);
-            setBuildings(data.buildings);
-            setRoads(data.roads || []);
-            setSource('cache');
-            setIsLoading(false);
-            return;
-          }
-        }
-      } catch (e) {
-        console.log('Cache read failed, clearing old cache');
-        // Clear potentially corrupted cache
-        localStorage.removeItem(CACHE_KEY);
-        // Also clear old cache key
-        localStorage.removeItem('asu-osm-buildings');
-      }
+  const show = useCallback((data: OSMData, nextSource: typeof source) => {
+    setBuildings(data.buildings);
+    setRoads(data.roads);
+    setSource(nextSource);
+    setIsLoading(false);
+  }, []);
+
+  // Save to the store; the data is still used if it won't fit
+  const store = useCallback(async (data: OSMData, recordSource: GeodataRecord['source'], fileName: string | null) => {
+    try {
+      setStored(describe(await writeGeodata({ ...data, site: CAMPUS_SITE.id, bounds: CAMPUS_SITE.bounds, source: recordSource, fileName })));
+      setStoreError(null);
+    } catch (e) {
+      // Whatever was stored before is still there
+      setStoreError({ operation: 'write', message: e instanceof Error ? e.message : String(e) });
+    }
+  }, []);
 
-      // Try fetching from OSM
-      try {
-        const osmData = await fetchOSMBuildings();
-        if (osmData.buildings.length > 0) {
-          setBuildings(osmData.buildings);
-          setRoads(osmData.roads);
-          setSource('osm');
-
-          // Cache the results
-          try {
-            localStorage.setItem(CACHE_KEY, JSON.stringify({
-              buildings: osmData.buildings,
-              roads: osmData.roads,
-              timestamp: Date.now(),
-            }));
-          } catch (e) {
-            console.log('Cache write failed');
-          }
-
-          setIsLoading(false);
-          return;
-        }
-      } catch (e) {
-        console.error('OSM fetch failed:', e);
+  // Fetch from OSM and store the result. Whatever is on screen stays if the fetch fails,
+  // and the error is kept for the UI.
+  const refresh = useCallback(async (): Promise<boolean> => {
+    if (refreshingRef.current) return false;
+    refreshingRef.current = true;
+    setRefreshing(true);
+    try {
+      const osmData = await fetchOSMBuildings();
+      if (osmData.buildings.length === 0) {
+        throw new OverpassError('invalid', 'Overpass returned no buildings for the site');
       }
+      show(osmData, 'osm');
+      await store(osmData, 'osm', null);
+      setFetchError(null);
+      return true;
+    } catch (e) {
+      setFetchError(e instanceof OverpassError ? e : new OverpassError('network', String(e)));
+      return false;
+    } finally {
+      refreshingRef.current = false;
+      setRefreshing(false);
+    }
+  }, [show, store]);
 
-      // Fallback to static data (no roads in fallback)
-      console.log('Using fallback buildings');
-      setBuildings(fallbackBuildings);
-      setRoads([]);
-      setSource('fallback');
-      setIsLoading(false);
+  // Stale-while-revalidate - a stored copy is shown at once, and refetched behind it when old
+  const load = useCallback(async () => {
+    let record: GeodataRecord | null = null;
+    try {
+      record = await readGeodata(SITE_KEY);
+    } catch (e) {
+      setStoreError({ operation: 'read', message: e instanceof Error ? e.message : String(e) });
+    }
+    if (record) {
+      show(record, record.source === 'file' ? 'file' : 'cache');
+      setStored(describe(record));
+      // Imported data is kept as it is until replaced or cleared
+      if (record.source === 'osm' && Date.now() - record.savedAt > MAX_AGE) refresh();
+      return;
     }
 
-    loadBuildings();
-  }, []);
+    try {
+      const bundled = await loadBuildSiteFile();
+      if (bundled) {
+        show(bundled.data, 'file');
+        await store(bundled.data, 'file', bundled.name);
+        setSiteFileError(null);
+        return;
+      }
+    } catch (e) {
+      // Kept on screen - an air-gapped deployment will fail the Overpass fetch next as well
+      setSiteFileError(e instanceof Error ? e.message : String(e));
+    }
+
+    if (await refresh()) return;
+
+    // Fallback to static data (no roads in fallback)
+    show({ buildings: fallbackBuildings, roads: [] }, 'fallback');
+  }, [show, store, refresh]);
 
-  return { buildings, roads, isLoading, source };
+  useEffect(() => {
+    LEGACY_KEYS.forEach(key => localStorage.removeItem(key));
+    load();
+  }, [load]);
+
+  // Parse a user-supplied .osm, .osm.pbf or GeoJSON file and make it the site dataset.
+  // Rejects with a readable message if the file can't be used; the current data stays.
+  const importFile = useCallback(async (file: File) => {
+    const data = await importSiteFile(file);
+    show(data, 'file');
+    await store(data, 'file', file.name);
+    setSiteFileError(null);
+  }, [show, store]);
+
+  // Forget the imported site and go back to the usual sources
+  const clearImportedSite = useCallback(async () => {
+    try {
+      await deleteGeodata(SITE_KEY);
+    } catch (e) {
+      setStoreError({ operation: 'write', message: e instanceof Error ? e.message : String(e) });
+      return;
+    }
+    setStored(null);
+    await load();
+  }, [load]);
+
+  return { buildings, roads, isLoading, source, stored, refreshing, fetchError, siteFileError, storeError, refresh, importFile, clearImportedSite };
 }
 
+export type CampusData = ReturnType<typeof useBuildings>;
+
 // Utility function to clear cache (useful for development)
-export function clearBuildingCache() {
-  localStorage.removeItem(CACHE_KEY);
-  localStorage.removeItem('asu-osm-buildings');
-  console.log('Cache cleared - will fetch fresh OSM data on next load');
+export async function clearBuildingCache() {
+  await deleteGeodata(SITE_KEY);
 }
@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { rankDispatchCandidates } from '../sim/dispatchAdvisor';
+import type { DispatchCandidate } from '../sim/dispatchAdvisor';
+import type { Incident } from '../sim/engine';
+import { toLocal } from '../sim/geo';
+import type { ObstacleGrid } from '../sim/pathPlanner';
+import { incidentTarget } from '../sim/sensorFusion';
+import type { Drone } from '../data/mockData';
+
+// Drone movement that counts as a change of position for the rankings
+const POSITION_BUCKET = 25; // meters
+const ALTITUDE_BUCKET = 10; // meters
+
+// What a ranking depends on, coarsened so it stays the same between most ticks
+function rankingKey(drones: Drone[], incidents: Incident[]): string {
+  const fleet = drones.map(d => {
+    const p = toLocal(d);
+    return [
+      d.id,
+      d.status,
+      Math.round(p.x / POSITION_BUCKET),
+      Math.round(p.y / POSITION_BUCKET),
+      Math.round(d.altitude / ALTITUDE_BUCKET),
+      Math.floor(d.battery),
+    ].join(':');
+  });
+  const scenes = incidents.map(i => {
+    const scene = incidentTarget(i);
+    return `${i.alert.id}@${scene.lat},${scene.lng}`;
+  });
+  return `${fleet.join('|')}/${scenes.join('|')}`;
+}
+
+// Dispatch advisor rankings by alert id, shared by the status panel and the 3D scene so they
+// agree. Ranking can plan an A* route per drone, so it reruns when a drone changes bucket,
+// status or battery percent rather than on every tick.
+export function useDispatchRankings(
+  drones: Drone[],
+  incidents: Incident[],
+  obstacles: ObstacleGrid | null,
+): Record<string, DispatchCandidate[]> {
+  const key = rankingKey(drones, incidents);
+  const [cached, setCached] = useState<{
+    key: string;
+    obstacles: ObstacleGrid | null;
+    rankings: Record<string, DispatchCandidate[]>;
+  } | null>(null);
+
+  if (cached && cached.key === key && cached.obstacles === obstacles) return cached.rankings;
+
+  const rankings = Object.fromEntries(
+    incidents.map(i => [i.alert.id, rankDispatchCandidates(drones, incidentTarget(i), obstacles)]),
+  );
+  setCached({ key, obstacles, rankings });
+  return rankings;
+}
@@ -0,0 +1,47 @@
+import { useEffect, useRef } from 'react';
+import { incidentTarget } from '../sim/sensorFusion';
+import type { Incident } from '../sim/engine';
+import type { LatLng } from '../sim/geo';
+import { flightProfile } from '../data/droneConfigs';
+import type { FleetCommand } from '../telemetry/protocol';
+import type { ConnectionState } from './useLiveTelemetry';
+
+// Relays incident assignments to live aircraft: a drone newly assigned to an incident is
+// sent there, and a drone released from every incident is sent home. Covers manual and
+// auto-dispatch alike since both only change the engine's incident state. A drone is sent
+// again when a new tower bearing moves its incident's fix. Only commands that went out are
+// remembered, so anything missed while the socket was down is sent when it reconnects.
+export function useFleetCommands(
+  incidents: Incident[],
+  send: ((command: FleetCommand) => boolean) | null,
+  connection: ConnectionState,
+) {
+  const assignedRef = useRef(new Map<string, LatLng>()); // drone id -> scene it was sent to
+
+  useEffect(() => {
+    if (!send) return;
+
+    const assigned = new Map<string, LatLng>();
+    for (const incident of incidents) {
+      for (const droneId of incident.droneIds) assigned.set(droneId, incidentTarget(incident));
+    }
+
+    const delivered = new Map<string, LatLng>();
+    for (const [droneId, scene] of assigned) {
+      const sent = assignedRef.current.get(droneId);
+      if (sent && sent.lat === scene.lat && sent.lng === scene.lng) {
+        delivered.set(droneId, sent);
+      } else if (send({ type: 'dispatch', droneId, lat: scene.lat, lng: scene.lng, alt: flightProfile.investigateAltitude })) {
+        delivered.set(droneId, scene);
+      } else if (sent) {
+        delivered.set(droneId, sent); // still heading for the old scene until the new one gets through
+      }
+    }
+    for (const [droneId, sent] of assignedRef.current) {
+      // Still out there until the return gets through
+      if (!assigned.has(droneId) && !send({ type: 'return', droneId })) delivered.set(droneId, sent);
+    }
+
+    assignedRef.current = delivered;
+  }, [incidents, send, connection]); // connection - retry what was missed once it's open again
+}
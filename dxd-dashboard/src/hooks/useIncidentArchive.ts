@@ -0,0 +1,46 @@
+import { useEffect, useRef, useState } from 'react';
+import { archiveIncident, readIncidentArchive } from '../data/incidentArchive';
+import { incidentRecord, recordKey, sessionId } from '../sim/incidentHistory';
+import type { IncidentRecord } from '../sim/incidentHistory';
+import type { SimState } from '../sim/engine';
+
+// Archives the live session's incidents as they close, and reads back earlier sessions'
+// for the history panel. A store that can't be used is reported, not thrown.
+export function useIncidentArchive(state: SimState) {
+  const [earlier, setEarlier] = useState<IncidentRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const savedRef = useRef(new Set<string>()); // record keys written or being written
+  const session = sessionId(state);
+
+  useEffect(() => {
+    let cancelled = false;
+    readIncidentArchive().then(
+      records => {
+        if (!cancelled) setEarlier(records.filter(record => record.session !== session));
+      },
+      e => {
+        if (!cancelled) setError(`Could not read the incident archive - ${e instanceof Error ? e.message : e}`);
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
+
+  useEffect(() => {
+    const session = sessionId(state);
+    for (const incident of state.closedIncidents) {
+      const key = recordKey(session, incident.alert.id);
+      if (savedRef.current.has(key)) continue;
+      // Marked before the write settles, so a failing store isn't retried every tick
+      savedRef.current.add(key);
+      archiveIncident(incidentRecord(state, incident)).catch(e => {
+        setError(`Could not archive ${incident.alert.id} - ${e instanceof Error ? e.message : e}`);
+      });
+    }
+  }, [state]);
+
+  return { earlier, error };
+}
+
+export type IncidentArchive = ReturnType<typeof useIncidentArchive>;
@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { applyTelemetry, emptyFleet, expireFleet, fleetDrones } from '../telemetry/adapter';
+import { parseTelemetry } from '../telemetry/protocol';
+import { MavlinkParser, createMavlinkTranslator } from '../telemetry/mavlink';
+import type { FleetCommand, TelemetryMessage } from '../telemetry/protocol';
+
+export type ConnectionState = 'connecting' | 'open' | 'closed';
+
+const FLUSH_INTERVAL = 100;    // ms - batch incoming messages into one render
+const RECONNECT_DELAY = 1000;  // ms - first retry, doubling up to the max
+const MAX_RECONNECT_DELAY = 15000;
+const LINK_TIMEOUT = 10000;    // ms without a message before an aircraft is dropped
+
+// Subscribes to a live telemetry WebSocket and keeps the fleet current.
+// Text frames carry JSON telemetry messages; binary frames carry raw MAVLink from a bridge.
+// Pass null to stay disconnected (simulator mode).
+export function useLiveTelemetry(url: string | null) {
+  const [fleet, setFleet] = useState(emptyFleet);
+  const [connection, setConnection] = useState<ConnectionState>(url ? 'connecting' : 'closed');
+  const socketRef = useRef<WebSocket | null>(null);
+  const bufferRef = useRef<TelemetryMessage[]>([]);
+
+  useEffect(() => {
+    if (!url) return;
+
+    let socket: WebSocket;
+    let retryDelay = RECONNECT_DELAY;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const connect = () => {
+      // Fresh parser per connection - a partial frame from a dropped socket never completes
+      const mavlink = new MavlinkParser();
+      const translate = createMavlinkTranslator();
+      socket = new WebSocket(url);
+      socket.binaryType = 'arraybuffer';
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        retryDelay = RECONNECT_DELAY;
+        setConnection('open');
+      };
+      socket.onmessage = (event) => {
+        if (event.data instanceof ArrayBuffer) {
+          const now = Date.now();
+          const frames = mavlink.push(new Uint8Array(event.data));
+          bufferRef.current.push(...frames.flatMap(frame => translate(frame, now)));
+          return;
+        }
+        const message = parseTelemetry(event.data);
+        if (message) bufferRef.current.push(message);
+      };
+      socket.onclose = () => {
+        socketRef.current = null;
+        setConnection('closed');
+        if (stopped) return;
+        retryTimer = setTimeout(() => {
+          setConnection('connecting');
+          connect();
+        }, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, MAX_RECONNECT_DELAY);
+      };
+    };
+    connect();
+
+    const flush = setInterval(() => {
+      const messages = bufferRef.current;
+      if (messages.length === 0) return;
+      bufferRef.current = [];
+      setFleet(current => applyTelemetry(current, messages, Date.now()));
+    }, FLUSH_INTERVAL);
+    const expire = setInterval(() => {
+      setFleet(current => expireFleet(current, Date.now() - LINK_TIMEOUT));
+    }, 1000);
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      clearInterval(flush);
+      clearInterval(expire);
+      socket.close();
+    };
+  }, [url]);
+
+  // Whether the command went out - nothing is queued while disconnected, so callers that
+  // need it delivered send it again once the connection is back
+  const send = useCallback((command: FleetCommand): boolean => {
+    const socket = socketRef.current;
+    if (socket?.readyState !== WebSocket.OPEN) return false;
+    socket.send(JSON.stringify(command));
+    return true;
+  }, []);
+
+  const drones = useMemo(() => fleetDrones(fleet), [fleet]);
+
+  return { drones, lastSeen: fleet.lastSeen, connection, send };
+}
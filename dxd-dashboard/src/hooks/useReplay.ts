@@ -0,0 +1,72 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { TICK_SECONDS } from '../sim/engine';
+import { SessionReplay } from '../sim/recording';
+import type { SessionRecording } from '../sim/recording';
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8, 16];
+
+interface ReplaySession {
+  replay: SessionReplay;
+  step: number; // fractional at speeds below 1x
+}
+
+// Plays back a session recording at a chosen speed. While a recording is loaded,
+// `state` is the engine state at the playhead; otherwise it is null.
+export function useReplay() {
+  const [session, setSession] = useState<ReplaySession | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const steps = session?.replay.recording.steps ?? 0;
+  const atEnd = session !== null && session.step >= steps;
+
+  useEffect(() => {
+    if (!playing || atEnd) return;
+    const interval = setInterval(() => {
+      setSession(current => current && {
+        ...current,
+        step: Math.min(current.step + speed, current.replay.recording.steps),
+      });
+    }, TICK_SECONDS * 1000);
+    return () => clearInterval(interval);
+  }, [playing, atEnd, speed]);
+
+  const state = useMemo(
+    () => (session ? session.replay.stateAt(Math.floor(session.step)) : null),
+    [session],
+  );
+
+  const load = useCallback((recording: SessionRecording) => {
+    setSession({ replay: new SessionReplay(recording), step: 0 });
+    setPlaying(true);
+  }, []);
+
+  const exit = useCallback(() => {
+    setSession(null);
+    setPlaying(false);
+  }, []);
+
+  const seek = useCallback((step: number) => {
+    setSession(current => current && { ...current, step: Math.max(0, Math.min(step, current.replay.recording.steps)) });
+  }, []);
+
+  // Play from the start again once the end is reached
+  const togglePlaying = useCallback(() => {
+    if (atEnd) seek(0);
+    setPlaying(p => atEnd || !p);
+  }, [atEnd, seek]);
+
+  return {
+    state,
+    active: session !== null,
+    playing: playing && !atEnd,
+    speed,
+    step: session?.step ?? 0,
+    steps,
+    load,
+    exit,
+    seek,
+    togglePlaying,
+    setSpeed,
+  };
+}
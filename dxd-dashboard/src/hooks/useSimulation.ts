@@ -0,0 +1,76 @@
+import { useReducer, useEffect, useCallback, useRef } from 'react';
+import { simReducer, createSimState, TICK_SECONDS } from '../sim/engine';
+import type { DispatchSettings, SimCommand, SimOptions } from '../sim/engine';
+import type { IncidentStatus } from '../sim/incidentLifecycle';
+import type { LatLng } from '../sim/geo';
+import { createRecording, recordCommand } from '../sim/recording';
+import type { SessionRecording } from '../sim/recording';
+import type { OSMBuilding } from '../data/fetchOSMBuildings';
+import type { Drone } from '../data/mockData';
+import type { SentryTower } from '../data/sentryTowers';
+
+// Drives the simulation engine from a 50ms interval - 20fps for smooth movement.
+// Each interval advances exactly one fixed step, so sim time never depends on timer jitter.
+// With live telemetry (liveDrones not null) the engine keeps alerts and incidents but
+// takes drone positions from the feed.
+// Every command is also appended to a session recording for after-action replay.
+export function useSimulation(options: SimOptions, buildings: OSMBuilding[], liveDrones: Drone[] | null = null) {
+  const [state, sendToEngine] = useReducer(simReducer, options, createSimState);
+  const recordingRef = useRef<SessionRecording | null>(null);
+
+  const send = useCallback((command: SimCommand) => {
+    recordingRef.current ??= createRecording(options);
+    recordCommand(recordingRef.current, command);
+    sendToEngine(command);
+  }, [options]);
+
+  // Feed loaded building footprints to the path planner
+  useEffect(() => {
+    send({ type: 'setBuildings', buildings });
+  }, [buildings, send]);
+
+  useEffect(() => {
+    if (liveDrones) send({ type: 'liveDrones', drones: liveDrones });
+  }, [liveDrones, send]);
+
+  useEffect(() => {
+    const interval = setInterval(() => send({ type: 'tick' }), TICK_SECONDS * 1000);
+    return () => clearInterval(interval);
+  }, [send]);
+
+  const dispatch = useCallback((alertId: string, droneId: string, isManual: boolean, by: string) => {
+    send({ type: 'dispatch', alertId, droneId, isManual, by });
+  }, [send]);
+
+  const setIncidentStatus = useCallback((alertId: string, status: IncidentStatus, by: string, note?: string) => {
+    send({ type: 'setIncidentStatus', alertId, status, by, note });
+  }, [send]);
+
+  const holdAutoDispatch = useCallback((alertId: string) => {
+    send({ type: 'holdAutoDispatch', alertId });
+  }, [send]);
+
+  const configureDispatch = useCallback((settings: Partial<DispatchSettings>) => {
+    send({ type: 'setDispatchSettings', settings });
+  }, [send]);
+
+  const lockTowerPan = useCallback((towerId: string, target: LatLng | null, by: string) => {
+    send({ type: 'lockTowerPan', towerId, target, by });
+  }, [send]);
+
+  const setSentryTowers = useCallback((towers: SentryTower[], by: string) => {
+    send({ type: 'setSentryTowers', towers, by });
+  }, [send]);
+
+  const setTowerMaintenance = useCallback((towerId: string, maintenance: boolean, by: string) => {
+    send({ type: 'setTowerMaintenance', towerId, maintenance, by });
+  }, [send]);
+
+  // Snapshot of the session so far - safe to serialize while recording continues
+  const getRecording = useCallback((): SessionRecording => {
+    const recording = recordingRef.current ?? createRecording(options);
+    return { ...recording, commands: [...recording.commands] };
+  }, [options]);
+
+  return { state, dispatch, setIncidentStatus, holdAutoDispatch, configureDispatch, lockTowerPan, setSentryTowers, setTowerMaintenance, getRecording };
+}
@@ -0,0 +1,121 @@
+// Alert priority scoring - a 0-100 score from what the alert is, where and when it happened,
+// whether towers corroborate it and how busy the area has been. Severity is banded from the score.
+
+import type { Alert } from '../data/mockData';
+import type { GeofenceZone, ZoneType } from '../data/geofences';
+import type { SentryTower } from '../data/sentryTowers';
+import { distanceMeters } from './geo';
+import { siteMinuteOfDay } from './siteClock';
+
+export interface PriorityFactor {
+  label: string;
+  points: number;
+}
+
+export interface AlertPriority {
+  score: number; // 0-100
+  severity: Alert['severity'];
+  factors: PriorityFactor[];
+}
+
+// What else is known when the alert comes in
+export interface ScoringContext {
+  zones: GeofenceZone[];   // zones the alert falls in
+  towers: SentryTower[];   // towers that picked it up
+  recentAlerts: Alert[];   // earlier alerts, open or closed
+  siteUtcOffset: number;   // minutes - night and evening are on the site's clock
+}
+
+const typePoints: Record<Alert['type'], number> = {
+  unauthorized_access: 30,
+  perimeter_breach: 25,
+  motion_detected: 10,
+};
+
+const INSIDE_PERIMETER_POINTS = 15;
+
+// Most critical interior zone counts; the perimeter is scored separately
+const zoneCriticality: Record<ZoneType, number> = {
+  perimeter: 0,
+  restricted: 20,
+  no_fly: 15,
+  privacy: 5,
+};
+
+const NIGHT_POINTS = 15;   // 22:00-06:00
+const EVENING_POINTS = 5;  // 18:00-22:00
+
+const TOWER_POINTS = 10;   // per corroborating tower
+const MAX_TOWERS = 2;
+
+const NEARBY_RADIUS = 200;       // meters
+const NEARBY_WINDOW = 15 * 60;   // seconds
+const NEARBY_POINTS = 5;         // per earlier alert nearby
+const MAX_NEARBY = 3;
+
+// Lower bounds of the severity bands
+const HIGH_SEVERITY = 60;
+const MEDIUM_SEVERITY = 35;
+
+export function severityForScore(score: number): Alert['severity'] {
+  if (score >= HIGH_SEVERITY) return 'high';
+  if (score >= MEDIUM_SEVERITY) return 'medium';
+  return 'low';
+}
+
+function timeOfDayPoints(timestamp: Date, utcOffset: number): number {
+  const hour = Math.floor(siteMinuteOfDay(timestamp, utcOffset) / 60);
+  if (hour >= 22 || hour < 6) return NIGHT_POINTS;
+  if (hour >= 18) return EVENING_POINTS;
+  return 0;
+}
+
+// Earlier alerts near this one within the look-back window
+function nearbyAlertCount(alert: Pick<Alert, 'lat' | 'lng' | 'timestamp'>, recentAlerts: Alert[]): number {
+  const time = alert.timestamp.getTime();
+  return recentAlerts.filter(other =>
+    time - other.timestamp.getTime() <= NEARBY_WINDOW * 1000 &&
+    time >= other.timestamp.getTime() &&
+    distanceMeters(alert, other) <= NEARBY_RADIUS
+  ).length;
+}
+
+export function scoreAlert(
+  alert: Pick<Alert, 'lat' | 'lng' | 'type' | 'timestamp'>,
+  { zones, towers, recentAlerts, siteUtcOffset }: ScoringContext,
+): AlertPriority {
+  const factors: PriorityFactor[] = [{ label: alert.type.replace(/_/g, ' '), points: typePoints[alert.type] }];
+
+  if (zones.some(zone => zone.type === 'perimeter')) {
+    factors.push({ label: 'inside perimeter', points: INSIDE_PERIMETER_POINTS });
+  }
+
+  const critical = zones.reduce<GeofenceZone | null>(
+    (best, zone) => (zoneCriticality[zone.type] > (best ? zoneCriticality[best.type] : 0) ? zone : best),
+    null,
+  );
+  if (critical) {
+    factors.push({ label: critical.name, points: zoneCriticality[critical.type] });
+  }
+
+  const timePoints = timeOfDayPoints(alert.timestamp, siteUtcOffset);
+  if (timePoints > 0) {
+    factors.push({ label: timePoints === NIGHT_POINTS ? 'night' : 'evening', points: timePoints });
+  }
+
+  const corroborating = Math.min(towers.length, MAX_TOWERS);
+  if (corroborating > 0) {
+    factors.push({
+      label: corroborating === 1 ? `${towers[0].name} corroborated` : `${towers.length} towers corroborated`,
+      points: corroborating * TOWER_POINTS,
+    });
+  }
+
+  const nearby = Math.min(nearbyAlertCount(alert, recentAlerts), MAX_NEARBY);
+  if (nearby > 0) {
+    factors.push({ label: `${nearby} recent nearby alert${nearby > 1 ? 's' : ''}`, points: nearby * NEARBY_POINTS });
+  }
+
+  const score = Math.min(100, factors.reduce((sum, factor) => sum + factor.points, 0));
+  return { score, severity: severityForScore(score), factors };
+}
@@ -0,0 +1,74 @@
+// Battery model - drain from hover time, distance flown and airspeed; recharge on pads
+// All levels are percent of a full pack.
+
+import type { Drone } from '../data/mockData';
+import { landingPads } from '../data/landingPads';
+import type { LandingPad } from '../data/landingPads';
+import { flightProfile } from '../data/droneConfigs';
+import { distanceMeters, kmhToMs } from './geo';
+import type { LatLng } from './geo';
+
+const HOVER_DRAIN = 0.05;     // percent per second just to stay airborne
+const DISTANCE_DRAIN = 0.003; // percent per meter flown
+const DRAG_DRAIN = 0.0004;    // percent per second per (m/s)^2 of airspeed
+const CHARGE_RATE = 0.5;      // percent per second while parked on a pad
+
+export const RESERVE_LEVEL = 10;  // never plan to land below this
+export const CHARGED_LEVEL = 95;  // patrol drones take off again at this level
+const ON_SCENE_BUDGET = 60;       // seconds of hover planned at an incident
+const PAD_RADIUS = 20;            // meters - close enough to count as parked
+
+// Battery used over one step
+export function drainBattery(battery: number, meters: number, speedKmh: number, dt: number): number {
+  const v = kmhToMs(speedKmh);
+  const used = HOVER_DRAIN * dt + DISTANCE_DRAIN * meters + DRAG_DRAIN * v * v * dt;
+  return Math.max(0, battery - used);
+}
+
+export function chargeBattery(battery: number, dt: number): number {
+  return Math.min(100, battery + CHARGE_RATE * dt);
+}
+
+// Battery needed to fly `meters` at a given speed
+export function tripEnergy(meters: number, speedKmh: number): number {
+  const v = kmhToMs(speedKmh);
+  const seconds = v > 0 ? meters / v : 0;
+  return HOVER_DRAIN * seconds + DISTANCE_DRAIN * meters + DRAG_DRAIN * v * v * seconds;
+}
+
+// Drain rate in percent per second while holding a steady speed
+function drainRate(speedKmh: number): number {
+  const v = kmhToMs(speedKmh);
+  return HOVER_DRAIN + DISTANCE_DRAIN * v + DRAG_DRAIN * v * v;
+}
+
+// Estimated seconds of flight left before reaching the reserve
+export function flightTimeRemaining(drone: Drone): number {
+  const speed = drone.status === 'idle' ? flightProfile.respondSpeed : drone.speed;
+  return Math.max(0, drone.battery - RESERVE_LEVEL) / drainRate(speed);
+}
+
+export function nearestPad(point: LatLng): LandingPad {
+  return landingPads.reduce((nearest, pad) =>
+    distanceMeters(point, pad) < distanceMeters(point, nearest) ? pad : nearest
+  );
+}
+
+// The pad a drone is parked on, if any
+export function padAt(point: LatLng): LandingPad | undefined {
+  return landingPads.find(pad => distanceMeters(point, pad) <= PAD_RADIUS);
+}
+
+// Level at which a drone must head home to land at its nearest pad with reserve left
+export function returnThreshold(drone: Drone): number {
+  const pad = nearestPad(drone);
+  return RESERVE_LEVEL + tripEnergy(distanceMeters(drone, pad), flightProfile.returnSpeed);
+}
+
+// Whether a drone can fly to the target, hold on scene, and still reach a pad
+export function canCompleteRoundTrip(drone: Drone, target: LatLng): boolean {
+  const outbound = tripEnergy(distanceMeters(drone, target), flightProfile.respondSpeed);
+  const onScene = HOVER_DRAIN * ON_SCENE_BUDGET;
+  const home = tripEnergy(distanceMeters(target, nearestPad(target)), flightProfile.returnSpeed);
+  return drone.battery - outbound - onScene - home >= RESERVE_LEVEL;
+}
@@ -0,0 +1,111 @@
+// Coverage analysis - the secured perimeter rasterized into square cells, each scored by how
+// many tower cameras can watch it and how fast the nearest available drone could get there.
+// Used to find the gaps when sizing tower and drone counts for a site.
+
+import type { Drone } from '../data/mockData';
+import type { SentryTower } from '../data/sentryTowers';
+import { geofenceZones } from '../data/geofences';
+import { flightProfile } from '../data/droneConfigs';
+import { fromLocal, kmhToMs, toLocal } from './geo';
+import type { LatLng, Point } from './geo';
+import { pointInPolygon } from './geometry';
+import { zonePolygon, zonesAt } from './geofence';
+import { directFlightDistance } from './dispatchAdvisor';
+import { withinPanReach } from './towerCamera';
+
+export interface CoverageCell {
+  row: number; // from the south edge
+  col: number; // from the west edge
+  center: LatLng;
+  noFly: boolean; // drones can't respond inside
+}
+
+export interface CoverageGrid {
+  southWest: LatLng;
+  northEast: LatLng;
+  cellSize: number; // meters
+  rows: number;
+  cols: number;
+  cells: CoverageCell[]; // only cells whose center is inside the perimeter
+}
+
+export interface CoverageSummary {
+  covered: number;              // percent of cells at least one tower can watch
+  worstResponse: number | null; // seconds - slowest cell the fleet can reach
+  meanResponse: number | null;  // seconds
+}
+
+export const DEFAULT_CELL_SIZE = 25; // meters
+
+// Rasterize the secured perimeter - cell geometry only, so it can be shared across analyses
+export function coverageGrid(cellSize: number = DEFAULT_CELL_SIZE): CoverageGrid {
+  const perimeter = geofenceZones.find(zone => zone.type === 'perimeter');
+  if (!perimeter) {
+    const origin = fromLocal({ x: 0, y: 0 });
+    return { southWest: origin, northEast: origin, cellSize, rows: 0, cols: 0, cells: [] };
+  }
+
+  const polygon = zonePolygon(perimeter);
+  const min = { x: Math.min(...polygon.map(p => p.x)), y: Math.min(...polygon.map(p => p.y)) };
+  const max = { x: Math.max(...polygon.map(p => p.x)), y: Math.max(...polygon.map(p => p.y)) };
+  const cols = Math.ceil((max.x - min.x) / cellSize);
+  const rows = Math.ceil((max.y - min.y) / cellSize);
+
+  const cells: CoverageCell[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const point = { x: min.x + (col + 0.5) * cellSize, y: min.y + (row + 0.5) * cellSize };
+      if (!pointInPolygon(point, polygon)) continue;
+      const center = fromLocal(point);
+      cells.push({ row, col, center, noFly: zonesAt(center).some(zone => zone.type === 'no_fly') });
+    }
+  }
+  return {
+    southWest: fromLocal(min),
+    northEast: fromLocal({ x: min.x + cols * cellSize, y: min.y + rows * cellSize }),
+    cellSize,
+    rows,
+    cols,
+    cells,
+  };
+}
+
+// Number of towers that can bring each cell into view somewhere in their pan sweep. With
+// viewsheds, cells hidden behind buildings don't count; without, only range and pan limits do.
+export function towerCoverage(
+  grid: CoverageGrid,
+  towers: SentryTower[],
+  viewsheds: Record<string, LatLng[]> | null = null,
+): number[] {
+  const sheds = new Map<string, Point[]>(
+    viewsheds ? towers.map(tower => [tower.id, (viewsheds[tower.id] ?? []).map(p => toLocal(p))]) : [],
+  );
+  return grid.cells.map(cell => {
+    const point = toLocal(cell.center);
+    return towers.filter(tower => {
+      if (!withinPanReach(tower, cell.center)) return false;
+      const shed = sheds.get(tower.id);
+      return !shed || (shed.length > 0 && pointInPolygon(point, shed));
+    }).length;
+  });
+}
+
+// Seconds for the nearest patrolling, parked or sentry drone to reach each cell on a direct flight,
+// or null where no drone can respond (no-fly cells, or no drone available)
+export function responseTimes(grid: CoverageGrid, drones: Drone[]): (number | null)[] {
+  const available = drones.filter(d => d.status === 'patrolling' || d.status === 'idle' || d.status === 'sentry');
+  const speed = kmhToMs(flightProfile.respondSpeed);
+  return grid.cells.map(cell => {
+    if (cell.noFly || available.length === 0) return null;
+    return Math.min(...available.map(drone => directFlightDistance(drone, cell.center))) / speed;
+  });
+}
+
+export function summarizeCoverage(towers: number[], response: (number | null)[]): CoverageSummary {
+  const reachable = response.filter((seconds): seconds is number => seconds !== null);
+  return {
+    covered: towers.length > 0 ? (towers.filter(count => count > 0).length / towers.length) * 100 : 0,
+    worstResponse: reachable.length > 0 ? Math.max(...reachable) : null,
+    meanResponse: reachable.length > 0 ? reachable.reduce((sum, s) => sum + s, 0) / reachable.length : null,
+  };
+}
@@ -0,0 +1,66 @@
+// Dispatch advisor - ranks drones for an incident by estimated time to scene
+// Shared by the status panel and the 3D scene so both recommend the same drone.
+
+import type { Drone } from '../data/mockData';
+import { flightProfile } from '../data/droneConfigs';
+import { canCompleteRoundTrip, tripEnergy } from './battery';
+import { distanceMeters, kmhToMs } from './geo';
+import type { LatLng } from './geo';
+import { noFlyZoneOnPath, zonesAt } from './geofence';
+import { FLIGHT_LAYERS, planRoute, routeLength } from './pathPlanner';
+import type { ObstacleGrid } from './pathPlanner';
+
+export interface DispatchCandidate {
+  drone: Drone;
+  distance: number;         // meters along the estimated flight path
+  eta: number;              // seconds to scene at respond speed
+  batteryAtArrival: number; // percent
+}
+
+const CRUISE_ALTITUDE = FLIGHT_LAYERS[FLIGHT_LAYERS.length - 1];
+
+// Straight climb-cruise-descend flight distance from a drone to the scene, ignoring no-fly zones
+export function directFlightDistance(drone: Drone, scene: LatLng): number {
+  const climb = Math.max(0, CRUISE_ALTITUDE - drone.altitude);
+  const descent = Math.max(0, Math.max(CRUISE_ALTITUDE, drone.altitude) - flightProfile.investigateAltitude);
+  return distanceMeters(drone, scene) + climb + descent;
+}
+
+// Estimated 3D flight distance from a drone to the scene. The direct profile is used
+// unless that crosses a no-fly zone, in which case the route is planned.
+function flightDistance(drone: Drone, scene: LatLng, obstacles: ObstacleGrid | null): number {
+  if (noFlyZoneOnPath(drone, [scene])) {
+    const start = { lat: drone.lat, lng: drone.lng, alt: drone.altitude };
+    const route = planRoute(obstacles, drone, drone.altitude, scene, flightProfile.investigateAltitude);
+    return routeLength(start, route);
+  }
+  return directFlightDistance(drone, scene);
+}
+
+// Drones able to respond, fastest to scene first - the scene is the incident's dispatch target
+export function rankDispatchCandidates(
+  drones: Drone[],
+  scene: LatLng,
+  obstacles: ObstacleGrid | null = null,
+): DispatchCandidate[] {
+  if (zonesAt(scene).some(zone => zone.type === 'no_fly')) return [];
+
+  const speed = flightProfile.respondSpeed;
+  return drones
+    .filter(d => d.status !== 'responding' && canCompleteRoundTrip(d, scene))
+    .map(drone => {
+      const distance = flightDistance(drone, scene, obstacles);
+      return {
+        drone,
+        distance,
+        eta: distance / kmhToMs(speed),
+        batteryAtArrival: Math.max(0, drone.battery - tripEnergy(distance, speed)),
+      };
+    })
+    .sort((a, b) => a.eta - b.eta || b.batteryAtArrival - a.batteryAtArrival);
+}
+
+// The advisor's top pick, if any drone can respond
+export function recommendDrone(drones: Drone[], scene: LatLng, obstacles: ObstacleGrid | null = null): Drone | null {
+  return rankDispatchCandidates(drones, scene, obstacles)[0]?.drone ?? null;
+}
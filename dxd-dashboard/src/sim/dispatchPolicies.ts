@@ -0,0 +1,87 @@
+// Dispatch policies - given an open incident and the fleet, decide which drones to send.
+// Policies are pure; the engine applies their assignment through dispatchDrone().
+
+import type { Drone } from '../data/mockData';
+import { droneConfigs } from '../data/droneConfigs';
+import { rankDispatchCandidates } from './dispatchAdvisor';
+import type { DispatchCandidate } from './dispatchAdvisor';
+import { incidentTarget } from './sensorFusion';
+import type { Incident, SimState } from './engine';
+
+export interface DispatchAssignment {
+  droneIds: string[];
+  reason: string;
+}
+
+export interface DispatchPolicy {
+  id: DispatchPolicyId;
+  name: string;
+  description: string;
+  assign(incident: Incident, state: SimState): DispatchAssignment | null;
+}
+
+export type DispatchPolicyId = 'nearest-eta' | 'sector-patrol' | 'severity-tiered';
+
+function candidatesFor(incident: Incident, state: SimState): DispatchCandidate[] {
+  return rankDispatchCandidates(state.drones, incidentTarget(incident), state.obstacles);
+}
+
+const nearestEta: DispatchPolicy = {
+  id: 'nearest-eta',
+  name: 'Nearest ETA',
+  description: 'Send the single drone with the shortest time to scene',
+  assign(incident, state) {
+    const [best] = candidatesFor(incident, state);
+    if (!best) return null;
+    return { droneIds: [best.drone.id], reason: `${best.drone.id} fastest to scene (${Math.ceil(best.eta)}s)` };
+  },
+};
+
+// A patrolling drone is the only one covering its route, so pulling it leaves the sector empty
+function leavesSectorUncovered(drone: Drone, drones: Drone[]): boolean {
+  const route = droneConfigs[drone.id]?.route;
+  if (drone.status !== 'patrolling' || !route) return false;
+  return !drones.some(d => d.id !== drone.id && d.status === 'patrolling' && droneConfigs[d.id]?.route === route);
+}
+
+const sectorPatrol: DispatchPolicy = {
+  id: 'sector-patrol',
+  name: 'Keep Sector Patrols',
+  description: 'Prefer reserve drones so every patrol sector keeps one drone flying',
+  assign(incident, state) {
+    const candidates = candidatesFor(incident, state);
+    const reserve = candidates.find(c => !leavesSectorUncovered(c.drone, state.drones));
+    if (reserve) {
+      return { droneIds: [reserve.drone.id], reason: `${reserve.drone.id} sent - sector patrols kept` };
+    }
+    // Nothing in reserve - an uncovered sector beats an unanswered alert
+    const [best] = candidates;
+    if (!best) return null;
+    return { droneIds: [best.drone.id], reason: `no reserve drone - pulling ${best.drone.id} off patrol` };
+  },
+};
+
+// Drones sent per severity
+const SEVERITY_TIERS: Record<Incident['alert']['severity'], number> = { high: 2, medium: 1, low: 1 };
+
+const severityTiered: DispatchPolicy = {
+  id: 'severity-tiered',
+  name: 'Severity Tiered',
+  description: 'Two drones for high-severity alerts, one for medium; low-severity alerts wait for a reserve drone',
+  assign(incident, state) {
+    const { severity } = incident.alert;
+    const wanted = SEVERITY_TIERS[severity] - incident.droneIds.length;
+    // Low-severity alerts never pull the last drone off a patrol sector
+    const candidates = candidatesFor(incident, state)
+      .filter(c => severity !== 'low' || !leavesSectorUncovered(c.drone, state.drones));
+    const picks = candidates.slice(0, Math.max(0, wanted)).map(c => c.drone);
+    if (picks.length === 0) return null;
+    return { droneIds: picks.map(d => d.id), reason: `${severity} severity - ${picks.map(d => d.id).join(', ')}` };
+  },
+};
+
+export const dispatchPolicies: Record<DispatchPolicyId, DispatchPolicy> = {
+  'nearest-eta': nearestEta,
+  'sector-patrol': sectorPatrol,
+  'severity-tiered': severityTiered,
+};
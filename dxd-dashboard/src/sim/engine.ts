@@ -0,0 +1,988 @@
+// Deterministic fleet simulation core
+// Pure state-in/state-out: tick() and the command functions never touch the clock,
+// Math.random or React. Two runs with the same seed and the same commands produce
+// identical alerts, dispatches and arrivals.
+
+import type { Drone, Alert, LogEntry } from '../data/mockData';
+import type { OSMBuilding } from '../data/fetchOSMBuildings';
+import { initialDrones, generateAlert } from '../data/mockData';
+import { initialSentryTowers } from '../data/sentryTowers';
+import type { SentryTower } from '../data/sentryTowers';
+import { droneConfigs, flightProfile } from '../data/droneConfigs';
+import { landingPads } from '../data/landingPads';
+import { geofenceZones } from '../data/geofences';
+import { createRng, hashSeed } from './rng';
+import type { Rng } from './rng';
+import { advancePatrol, initialPatrol, routeFor } from './patrol';
+import type { PatrolProgress } from './patrol';
+import {
+  canCompleteRoundTrip,
+  chargeBattery,
+  drainBattery,
+  nearestPad,
+  padAt,
+  returnThreshold,
+  CHARGED_LEVEL,
+} from './battery';
+import { distanceMeters, headingTo, kmhToMs } from './geo';
+import type { LatLng } from './geo';
+import { noFlyZoneOnPath, zonesAt } from './geofence';
+import { dispatchPolicies } from './dispatchPolicies';
+import { fuseDetections, incidentTarget, senseThreat, towersInRange } from './sensorFusion';
+import { sightObstacles, towerVisibility } from './lineOfSight';
+import type { SightObstacle } from './lineOfSight';
+import type { TowerDetection, ThreatEstimate } from './sensorFusion';
+import { advanceCamera } from './towerCamera';
+import { canSense, initialTowerHealth, inMaintenanceWindow, reportedHealth, rollFault, HEARTBEAT_INTERVAL, HEARTBEAT_TIMEOUT } from './towerHealth';
+import type { TowerHealth, TowerHealthState } from './towerHealth';
+import { scoreAlert } from './alertScoring';
+import { DEFAULT_SITE_UTC_OFFSET } from './siteClock';
+import type { AlertPriority, PriorityFactor } from './alertScoring';
+import type { DispatchPolicyId } from './dispatchPolicies';
+import { canTransition, incidentStatusLabels, isAwaitingDispatch, isClosed, SYSTEM_ACTOR } from './incidentLifecycle';
+import type { IncidentStatus, IncidentTransition } from './incidentLifecycle';
+import { buildObstacleGrid, clearAltitude, followRoute, planRoute } from './pathPlanner';
+import type { ObstacleGrid, RoutePoint } from './pathPlanner';
+
+// Fixed simulation step - 20 ticks per second
+export const TICK_SECONDS = 0.05;
+
+// Simulation timing (seconds)
+const FIRST_ALERT_DELAY = 5;
+const MIN_ALERT_INTERVAL = 8;
+const MAX_ALERT_INTERVAL = 20;
+const PATROL_LOG_INTERVAL = 10;
+
+// Live aircraft count as on scene within this distance of the alert (meters)
+const LIVE_ARRIVAL_RADIUS = 25;
+
+// Upper bound on simultaneously open incidents
+const MAX_OPEN_INCIDENTS = 3;
+
+const DEFAULT_AUTO_DISPATCH_COUNTDOWN = 30; // seconds an operator has to act first
+const AUTO_DISPATCH_RETRY = 10;             // seconds before retrying when no drone was available
+
+export interface Metrics {
+  activeDrones: number;
+  totalDrones: number;
+  avgResponseTime: number;
+  responseTimes: number[];
+  alertsToday: number;
+  lastResponseAt: number | null; // sim time of the latest arrival
+}
+
+// An alert with its lifecycle state, assigned drones and timers
+export interface Incident {
+  alert: Alert;
+  status: IncidentStatus;
+  history: IncidentTransition[]; // oldest first, starting with 'new'
+  priorityFactors: PriorityFactor[]; // what made up alert.priority
+  droneIds: string[];
+  responders: string[]; // every drone ever dispatched, in dispatch order
+  detectedBy: string[];            // ids of the towers that have picked it up, in detection order
+  estimate: ThreatEstimate | null; // fused tower fix - null until a tower camera sees it
+  dispatchedAt: number | null;
+  arrivedAt: number | null;
+  autoDispatchAt: number | null; // sim time the dispatch policy fires unless an operator acts first
+}
+
+// How dispatch decisions are made when the operator doesn't click
+export interface DispatchSettings {
+  policy: DispatchPolicyId;
+  autoDispatch: boolean;
+  countdown: number; // seconds
+  coverTowerGaps: boolean; // park an idle drone over each offline tower
+}
+
+// Who flies the drones: the built-in simulator, or real aircraft reporting over live telemetry
+export type FlightControl = 'sim' | 'external';
+
+export interface SimState {
+  seed: number;
+  flightControl: FlightControl;
+  rngState: number;
+  startTime: number; // epoch ms at sim time 0
+  siteUtcOffset: number; // minutes - the site clock that time-of-day rules use
+  time: number;      // seconds since start
+  drones: Drone[];
+  sentryTowers: SentryTower[];
+  incidents: Incident[];        // open - drones stay on scene until the operator closes them
+  closedIncidents: Incident[];  // resolved, false alarm or escalated, in closing order
+  patrols: Record<string, PatrolProgress>; // route progress per patrolling drone
+  returnPads: Record<string, string>;      // landing pad id per drone sent home to recharge
+  sentryPosts: Record<string, string>;     // tower id per drone standing in for an offline tower
+  towerHealth: Record<string, TowerHealthState>;
+  routes: Record<string, RoutePoint[]>;    // planned waypoints still ahead of responding/returning drones
+  obstacles: ObstacleGrid | null;          // building height grid for path planning
+  sightObstacles: SightObstacle[];         // building footprints for tower line of sight
+  dispatchSettings: DispatchSettings;
+  nextAlertAt: number;
+  nextPatrolLogAt: number;
+  alertCount: number;
+  logCount: number;
+  logEntries: LogEntry[];
+  metrics: Metrics;
+}
+
+export interface SimOptions {
+  seed: number;
+  startTime: number;
+  siteUtcOffset?: number; // minutes east of UTC; recorded so replays don't depend on the viewer's timezone
+  flightControl?: FlightControl;
+}
+
+// Wall-clock timestamp for a point in sim time
+export function simDate(state: SimState, time: number = state.time): Date {
+  return new Date(state.startTime + time * 1000);
+}
+
+function appendLog(state: SimState, type: LogEntry['type'], message: string, alertId?: string): SimState {
+  const entry: LogEntry = {
+    id: `log-${state.logCount}`,
+    timestamp: simDate(state),
+    type,
+    message,
+    ...(alertId !== undefined && { alertId }),
+  };
+  return {
+    ...state,
+    logCount: state.logCount + 1,
+    logEntries: [...state.logEntries, entry],
+  };
+}
+
+export function createSimState({ seed, startTime, siteUtcOffset = DEFAULT_SITE_UTC_OFFSET, flightControl = 'sim' }: SimOptions): SimState {
+  const rng = createRng(hashSeed(seed));
+  // Live fleets start empty and fill in as telemetry arrives
+  const drones = flightControl === 'sim' ? initialDrones : [];
+  const activeDrones = drones.filter(d => d.status !== 'idle').length;
+  const activeTowers = initialSentryTowers.filter(t => t.status === 'active').length;
+
+  const state: SimState = {
+    seed,
+    flightControl,
+    rngState: 0,
+    startTime,
+    siteUtcOffset,
+    time: 0,
+    drones,
+    sentryTowers: initialSentryTowers,
+    incidents: [],
+    closedIncidents: [],
+    patrols: Object.fromEntries(
+      Object.entries(droneConfigs)
+        .filter(([, config]) => flightControl === 'sim' && config.mode === 'patrol')
+        .map(([id]) => [id, initialPatrol()])
+    ),
+    returnPads: {},
+    sentryPosts: {},
+    towerHealth: Object.fromEntries(initialSentryTowers.map(tower => [tower.id, initialTowerHealth(0)])),
+    routes: {},
+    obstacles: buildObstacleGrid([], geofenceZones),
+    sightObstacles: [],
+    dispatchSettings: {
+      policy: 'nearest-eta',
+      autoDispatch: false,
+      countdown: DEFAULT_AUTO_DISPATCH_COUNTDOWN,
+      coverTowerGaps: false,
+    },
+    nextAlertAt: FIRST_ALERT_DELAY,
+    nextPatrolLogAt: PATROL_LOG_INTERVAL,
+    alertCount: 0,
+    logCount: 0,
+    logEntries: [],
+    metrics: {
+      activeDrones,
+      totalDrones: drones.length,
+      avgResponseTime: -1, // -1 indicates no responses yet
+      responseTimes: [],
+      alertsToday: rng.int(3) + 4, // Start with 4-6
+      lastResponseAt: null,
+    },
+  };
+
+  return appendLog(
+    { ...state, rngState: rng.state() },
+    'system',
+    flightControl === 'sim'
+      ? `System online - ${activeDrones} drones, ${activeTowers} towers active`
+      : `System online - awaiting live telemetry, ${activeTowers} towers active`,
+  );
+}
+
+// Incidents sorted by priority score, then oldest first
+export function incidentQueue(incidents: Incident[]): Incident[] {
+  return [...incidents].sort((a, b) =>
+    b.alert.priority - a.alert.priority ||
+    a.alert.timestamp.getTime() - b.alert.timestamp.getTime()
+  );
+}
+
+export function findIncident(state: SimState, alertId: string): Incident | undefined {
+  return state.incidents.find(i => i.alert.id === alertId);
+}
+
+// The incident a responding drone is assigned to, if any
+export function incidentForDrone(state: SimState, droneId: string): Incident | undefined {
+  return state.incidents.find(i => i.droneIds.includes(droneId));
+}
+
+function updateIncident(state: SimState, alertId: string, patch: Partial<Incident>): SimState {
+  return {
+    ...state,
+    incidents: state.incidents.map(i => (i.alert.id === alertId ? { ...i, ...patch } : i)),
+  };
+}
+
+// Move an incident to a new status, recording who did it - callers check the transition is legal
+function transitionIncident(
+  state: SimState,
+  incident: Incident,
+  status: IncidentStatus,
+  by: string,
+  note: string = '',
+  patch: Partial<Incident> = {},
+): SimState {
+  return updateIncident(state, incident.alert.id, {
+    ...patch,
+    status,
+    history: [...incident.history, { status, at: state.time, by, note }],
+  });
+}
+
+// When a newly pending incident's auto-dispatch fires, or null in manual mode
+function autoDispatchDeadline(state: SimState): number | null {
+  const { autoDispatch, countdown } = state.dispatchSettings;
+  return autoDispatch ? state.time + countdown : null;
+}
+
+// Score an alert on what is known so far - the zones it falls in, the towers that have seen it
+// and the alerts before it
+function prioritize(state: SimState, alert: Omit<Alert, 'zones' | 'severity' | 'priority'>, towerIds: string[]): AlertPriority {
+  return scoreAlert(alert, {
+    zones: zonesAt(alert),
+    towers: state.sentryTowers.filter(t => towerIds.includes(t.id)),
+    recentAlerts: [...state.closedIncidents, ...state.incidents].map(i => i.alert).filter(a => a.id !== alert.id),
+    siteUtcOffset: state.siteUtcOffset,
+  });
+}
+
+// New alerts come in unconfirmed - tower cameras pick them up as their sweeps pass over
+function spawnAlert(state: SimState, rng: Rng): SimState {
+  const generated = generateAlert(rng.next, `ALERT-${state.alertCount + 1}`, simDate(state));
+  const priority = prioritize(state, generated, []);
+  const alert: Alert = {
+    ...generated,
+    zones: zonesAt(generated).map(zone => zone.id),
+    severity: priority.severity,
+    priority: priority.score,
+  };
+
+  let next: SimState = {
+    ...state,
+    incidents: [...state.incidents, {
+      alert,
+      status: 'new',
+      history: [{ status: 'new', at: state.time, by: SYSTEM_ACTOR, note: '' }],
+      priorityFactors: priority.factors,
+      droneIds: [],
+      responders: [],
+      detectedBy: [],
+      estimate: null,
+      dispatchedAt: null,
+      arrivedAt: null,
+      autoDispatchAt: autoDispatchDeadline(state),
+    }],
+    alertCount: state.alertCount + 1,
+    metrics: { ...state.metrics, alertsToday: state.metrics.alertsToday + 1 },
+  };
+  next = appendLog(
+    next,
+    'alert',
+    `⚠ ALERT: ${alert.type.replace(/_/g, ' ')} - ${alert.locationName} (${alert.severity}, priority ${alert.priority})`,
+    alert.id,
+  );
+
+  // Towers close enough to see it but looking at a building instead - no sweep will find it
+  const blocked = towersInRange(state.sentryTowers, alert).filter(t => towerVisibility(t, alert, state.sightObstacles) === 0);
+  if (blocked.length > 0) {
+    next = appendLog(next, 'system', `${blocked.map(t => t.name).join(', ')} line of sight blocked by buildings`, alert.id);
+  }
+  return next;
+}
+
+// A tower camera picked up an open incident - refine the fix and the priority with its bearing.
+// Drones already heading for the old fix are rerouted to the new one.
+function recordDetection(state: SimState, incident: Incident, tower: SentryTower, detection: TowerDetection): SimState {
+  const detectedBy = [...incident.detectedBy, tower.id];
+  const estimate = fuseDetections(state.sentryTowers, [...(incident.estimate?.detections ?? []), detection]);
+  const priority = prioritize(state, incident.alert, detectedBy);
+
+  let next = updateIncident(state, incident.alert.id, {
+    alert: { ...incident.alert, severity: priority.severity, priority: priority.score },
+    priorityFactors: priority.factors,
+    detectedBy,
+    estimate,
+  });
+  next = refreshTowerStatus({ ...next, routes: incident.droneIds.reduce(withoutKey, next.routes) });
+
+  const spread = Math.round(estimate?.ellipse.semiMajor ?? 0);
+  return appendLog(
+    next,
+    'alert',
+    detectedBy.length === 1
+      ? `${tower.name} detected threat at ${incident.alert.locationName}! Bearing only - ±${spread}m`
+      : `${tower.name} detected threat at ${incident.alert.locationName}! Fused fix from ${detectedBy.length} towers ±${spread}m`,
+    incident.alert.id,
+  );
+}
+
+// Pan every tower camera, then give each one looking at an open incident its chance to spot it
+function sweepTowers(state: SimState, rng: Rng, dt: number): SimState {
+  let next: SimState = { ...state, sentryTowers: state.sentryTowers.map(tower => advanceCamera(tower, dt)) };
+  for (const { alert } of state.incidents) {
+    for (const tower of next.sentryTowers) {
+      const incident = findIncident(next, alert.id)!;
+      if (incident.detectedBy.includes(tower.id) || !canSense(tower, next.towerHealth[tower.id])) continue;
+      const detection = senseThreat(tower, alert, rng, dt, next.sightObstacles);
+      if (detection) {
+        next = recordDetection(next, incident, tower, detection);
+      }
+    }
+  }
+  return next;
+}
+
+// Archive a closed incident and send its drones home
+function clearIncident(state: SimState, incident: Incident): SimState {
+  const incidents = state.incidents.filter(i => i.alert.id !== incident.alert.id);
+
+  return refreshTowerStatus({
+    ...state,
+    incidents,
+    closedIncidents: [...state.closedIncidents, incident],
+    drones: state.drones.map(d =>
+      incident.droneIds.includes(d.id) ? { ...d, status: 'returning' as const, speed: flightProfile.returnSpeed } : d
+    ),
+    routes: incident.droneIds.reduce(withoutKey, state.routes),
+  });
+}
+
+function recordArrival(state: SimState, drone: Drone, incident: Incident): SimState {
+  let next = transitionIncident(state, incident, 'on_scene', SYSTEM_ACTOR, `${drone.id} arrived`, {
+    arrivedAt: incident.arrivedAt ?? state.time, // a relief drone doesn't reset the first arrival
+  });
+  next = appendLog(next, 'arrival', `${drone.id} on scene at ${incident.alert.locationName} - awaiting operator`, incident.alert.id);
+
+  if (incident.dispatchedAt !== null) {
+    const responseTime = Math.round(state.time - incident.dispatchedAt);
+    const responseTimes = [...state.metrics.responseTimes, responseTime];
+    next = {
+      ...next,
+      metrics: {
+        ...next.metrics,
+        responseTimes,
+        avgResponseTime: Math.round(responseTimes.reduce((a, b) => a + b, 0) / responseTimes.length),
+        lastResponseAt: state.time,
+      },
+    };
+  }
+  return next;
+}
+
+// Where a returning drone is headed - a pad to land on, or the patrol waypoint it left for
+function returnTarget(state: SimState, drone: Drone): { point: LatLng; alt: number; toPad: boolean } {
+  const config = droneConfigs[drone.id];
+  const route = routeFor(config);
+  const forcedPad = state.returnPads[drone.id];
+
+  if (forcedPad === undefined && config?.mode === 'patrol' && route.length > 0) {
+    const progress = state.patrols[drone.id] ?? initialPatrol();
+    return { point: route[progress.waypoint % route.length], alt: flightProfile.patrolAltitude, toPad: false };
+  }
+
+  const pad = landingPads.find(p => p.id === (forcedPad ?? config?.pad)) ?? nearestPad(drone);
+  return { point: pad, alt: pad.height, toPad: true };
+}
+
+// Where a sentry drone holds - over the tower it stands in for
+function sentryPost(state: SimState, droneId: string): LatLng | undefined {
+  return state.sentryTowers.find(t => t.id === state.sentryPosts[droneId])?.position;
+}
+
+// Plan routes for responding, returning and sentry drones that don't have one yet
+function planRoutes(state: SimState): SimState {
+  let next = state;
+  let routes = state.routes;
+  for (const drone of state.drones) {
+    if (routes[drone.id] || (drone.status !== 'responding' && drone.status !== 'returning' && drone.status !== 'sentry')) continue;
+
+    const incident = drone.status === 'responding' ? incidentForDrone(state, drone.id) : undefined;
+    const scene = incident && incidentTarget(incident);
+    const post = drone.status === 'sentry' ? sentryPost(state, drone.id) : undefined;
+    const target = scene
+      ? { point: scene, alt: clearAltitude(state.obstacles, scene, flightProfile.investigateAltitude) }
+      : post
+        ? { point: post, alt: clearAltitude(state.obstacles, post, flightProfile.patrolAltitude) }
+        : returnTarget(state, drone);
+    const route = planRoute(state.obstacles, drone, drone.altitude, target.point, target.alt);
+    routes = { ...routes, [drone.id]: route };
+
+    // The planner falls back to a direct line when no path exists - flag it if that enters a no-fly zone
+    const noFly = noFlyZoneOnPath(drone, route);
+    if (noFly) {
+      next = appendLog(next, 'system', `${drone.id} has no route around ${noFly.name} - flying direct`);
+    }
+  }
+  return routes === state.routes ? next : { ...next, routes };
+}
+
+// Per-tick copies that moveDrone writes progress into
+interface TickScratch {
+  patrols: Record<string, PatrolProgress>;
+  routes: Record<string, RoutePoint[]>;
+}
+
+// Advance a single drone by dt seconds
+function moveDrone(drone: Drone, state: SimState, scratch: TickScratch, time: number, dt: number): Drone {
+  // If drone is idle, don't move
+  if (drone.status === 'idle') return drone;
+
+  const config = droneConfigs[drone.id];
+
+  // Responding, returning and sentry drones follow their planned route
+  if (drone.status === 'responding' || drone.status === 'returning' || drone.status === 'sentry') {
+    const route = state.routes[drone.id] ?? [];
+    const speed = drone.status === 'returning' ? flightProfile.returnSpeed : flightProfile.respondSpeed;
+    const { position, route: remaining } = followRoute(
+      { lat: drone.lat, lng: drone.lng, alt: drone.altitude },
+      route,
+      kmhToMs(speed) * dt,
+    );
+    scratch.routes[drone.id] = remaining;
+
+    const moved = position.lat !== drone.lat || position.lng !== drone.lng;
+    const next: Drone = {
+      ...drone,
+      lat: position.lat,
+      lng: position.lng,
+      altitude: position.alt,
+      speed: remaining.length > 0 ? speed : 0,
+      heading: moved ? headingTo(drone, position) : drone.heading,
+    };
+
+    // Responding drones hold on scene and sentries on post; returning drones land or resume patrol
+    if (remaining.length > 0 || drone.status !== 'returning') return next;
+    delete scratch.routes[drone.id];
+    return { ...next, status: returnTarget(state, drone).toPad ? 'idle' as const : 'patrolling' as const };
+  }
+
+  if (!config) return drone;
+
+  // Idle-mode drones that end up airborne head back to their pad
+  if (config.mode === 'idle') {
+    return { ...drone, status: 'returning' as const };
+  }
+
+  // Patrolling drones - fly the waypoint route
+  const { drone: patrolled, progress } = advancePatrol(
+    drone,
+    state.patrols[drone.id] ?? initialPatrol(),
+    config,
+    time,
+    dt,
+  );
+  scratch.patrols[drone.id] = progress;
+  return patrolled;
+}
+
+// Drain airborne drones by distance flown and speed; charge drones parked on a pad
+function updateBatteries(previous: Drone[], drones: Drone[], dt: number): Drone[] {
+  return drones.map((drone, i) => {
+    if (drone.status === 'idle') {
+      return padAt(drone) ? { ...drone, battery: chargeBattery(drone.battery, dt) } : drone;
+    }
+    const meters = distanceMeters(previous[i], drone) + Math.abs(drone.altitude - previous[i].altitude);
+    return { ...drone, battery: drainBattery(drone.battery, meters, drone.speed, dt) };
+  });
+}
+
+function withoutKey<T>(record: Record<string, T>, key: string): Record<string, T> {
+  const copy = { ...record };
+  delete copy[key];
+  return copy;
+}
+
+// Pull a drone off its task and send it to the nearest pad
+function forceReturn(state: SimState, drone: Drone): SimState {
+  const pad = nearestPad(drone);
+  const incident = incidentForDrone(state, drone.id);
+
+  let next: SimState = {
+    ...state,
+    drones: state.drones.map(d => (d.id === drone.id ? { ...d, status: 'returning' as const } : d)),
+    returnPads: { ...state.returnPads, [drone.id]: pad.id },
+    sentryPosts: withoutKey(state.sentryPosts, drone.id),
+    routes: withoutKey(state.routes, drone.id),
+  };
+
+  // Release the incident assignment; an incident left without drones goes back to awaiting dispatch
+  if (incident) {
+    const droneIds = incident.droneIds.filter(id => id !== drone.id);
+    const note = incident.status === 'on_scene' ? `${drone.id} recalled - low battery, scene uncovered` : `${drone.id} recalled - low battery`;
+    next = droneIds.length > 0
+      ? updateIncident(next, incident.alert.id, { droneIds })
+      : transitionIncident(next, incident, 'acknowledged', SYSTEM_ACTOR, note, {
+        droneIds,
+        dispatchedAt: null,
+        autoDispatchAt: autoDispatchDeadline(next),
+      });
+  }
+
+  return appendLog(
+    next,
+    'system',
+    `${drone.id} low battery (${Math.round(drone.battery)}%) - returning to ${pad.name}`,
+    incident?.alert.id,
+  );
+}
+
+// Low-battery return-to-base, and take-off again once recharged
+function applyBatteryRules(state: SimState): SimState {
+  let next = state;
+  for (const drone of state.drones) {
+    if (drone.status === 'idle') {
+      // Landed - the forced return is complete
+      if (next.returnPads[drone.id]) {
+        next = { ...next, returnPads: withoutKey(next.returnPads, drone.id) };
+      }
+      const config = droneConfigs[drone.id];
+      if (config?.mode === 'patrol' && drone.battery >= CHARGED_LEVEL) {
+        next = {
+          ...next,
+          drones: next.drones.map(d => (d.id === drone.id ? { ...d, status: 'returning' as const } : d)),
+          routes: withoutKey(next.routes, drone.id),
+        };
+        next = appendLog(next, 'system', `${drone.id} recharged - resuming patrol`);
+      }
+      continue;
+    }
+
+    if (!next.returnPads[drone.id] && drone.battery <= returnThreshold(drone)) {
+      next = forceReturn(next, drone);
+    }
+  }
+  return next;
+}
+
+// Tower status follows from health and open incidents - offline when down, in alert while an
+// open incident it detected is still open
+function refreshTowerStatus(state: SimState): SimState {
+  const alerted = new Set(state.incidents.flatMap(i => i.detectedBy));
+  let changed = false;
+  const sentryTowers = state.sentryTowers.map(tower => {
+    const status = tower.health === 'offline' || tower.health === 'maintenance'
+      ? 'offline' as const
+      : alerted.has(tower.id) ? 'alert' as const : 'active' as const;
+    if (status === tower.status) return tower;
+    changed = true;
+    return { ...tower, status };
+  });
+  return changed ? { ...state, sentryTowers } : state;
+}
+
+function healthMessage(tower: SentryTower, from: TowerHealth, to: TowerHealth, reason: string): string {
+  switch (to) {
+    case 'offline':
+      return `${tower.name} offline - no heartbeat for ${HEARTBEAT_TIMEOUT}s`;
+    case 'degraded':
+      return `${tower.name} degraded - camera self-test reports reduced image quality`;
+    case 'maintenance':
+      return `${tower.name} down for maintenance - ${reason}`;
+    default:
+      return from === 'maintenance' ? `${tower.name} back in service` : `${tower.name} back online`;
+  }
+}
+
+// Publish each tower's health as the operator would see it, logging every change.
+// Maintenance is from the daily schedule unless an operator set it.
+function reportTowerHealth(state: SimState, by?: string): SimState {
+  let next = state;
+  for (const tower of state.sentryTowers) {
+    const health = next.towerHealth[tower.id] ?? initialTowerHealth(state.time);
+    const scheduled = inMaintenanceWindow(tower.id, simDate(state), state.siteUtcOffset);
+    const reported = reportedHealth(health, state.time, scheduled);
+    if (reported === tower.health) continue;
+    next = {
+      ...next,
+      sentryTowers: next.sentryTowers.map(t => (t.id === tower.id ? { ...t, health: reported } : t)),
+    };
+    const reason = by ? `set by ${by}` : 'scheduled window';
+    next = appendLog(next, 'system', healthMessage(tower, tower.health, reported, reason));
+  }
+  return refreshTowerStatus(next);
+}
+
+// Faults strike and get repaired; working towers send heartbeats
+function updateTowerHealth(state: SimState, rng: Rng, dt: number): SimState {
+  const towerHealth = { ...state.towerHealth };
+  for (const tower of state.sentryTowers) {
+    let health = towerHealth[tower.id] ?? initialTowerHealth(state.time);
+    const down = health.maintenance || inMaintenanceWindow(tower.id, simDate(state), state.siteUtcOffset);
+    if (health.fault && state.time >= health.fault.until) {
+      health = { ...health, fault: null };
+    }
+    if (!health.fault && !down) {
+      const fault = rollFault(rng, state.time, dt);
+      if (fault) health = { ...health, fault };
+    }
+    if (!down && health.fault?.kind !== 'failed' && state.time - health.lastHeartbeat >= HEARTBEAT_INTERVAL) {
+      health = { ...health, lastHeartbeat: state.time };
+    }
+    towerHealth[tower.id] = health;
+  }
+  return reportTowerHealth({ ...state, towerHealth });
+}
+
+// Temporary sentries - with gap cover on, an idle drone is parked over each offline tower
+// and sent home once the tower is back
+function updateSentryPosts(state: SimState): SimState {
+  const { coverTowerGaps } = state.dispatchSettings;
+  let next = state;
+
+  for (const [droneId, towerId] of Object.entries(state.sentryPosts)) {
+    const tower = next.sentryTowers.find(t => t.id === towerId);
+    if (coverTowerGaps && tower?.status === 'offline') continue;
+    next = {
+      ...next,
+      sentryPosts: withoutKey(next.sentryPosts, droneId),
+      routes: withoutKey(next.routes, droneId),
+      drones: next.drones.map(d =>
+        d.id === droneId && d.status === 'sentry' ? { ...d, status: 'returning' as const, speed: flightProfile.returnSpeed } : d
+      ),
+    };
+    const why = !tower ? 'tower removed' : !coverTowerGaps ? 'gap cover disabled' : `${tower.name} back up`;
+    next = appendLog(next, 'system', `${droneId} leaving sentry post - ${why}`);
+  }
+  if (!coverTowerGaps) return next;
+
+  const posted = new Set(Object.values(next.sentryPosts));
+  for (const tower of next.sentryTowers) {
+    if (tower.status !== 'offline' || posted.has(tower.id)) continue;
+    const [drone] = next.drones
+      .filter(d => d.status === 'idle' && canCompleteRoundTrip(d, tower.position))
+      .sort((a, b) => distanceMeters(a, tower.position) - distanceMeters(b, tower.position));
+    if (!drone) continue;
+    next = {
+      ...next,
+      sentryPosts: { ...next.sentryPosts, [drone.id]: tower.id },
+      returnPads: withoutKey(next.returnPads, drone.id),
+      routes: withoutKey(next.routes, drone.id),
+      drones: next.drones.map(d =>
+        d.id === drone.id ? { ...d, status: 'sentry' as const, speed: flightProfile.respondSpeed } : d
+      ),
+    };
+    next = appendLog(next, 'dispatch', `${drone.id} launched as temporary sentry over ${tower.name}`);
+  }
+  return next;
+}
+
+// Advance the simulation by one fixed step
+export function tick(state: SimState, dt: number = TICK_SECONDS): SimState {
+  const rng = createRng(state.rngState);
+  const time = state.time + dt;
+  let next: SimState = { ...state, time };
+
+  // Alert generation - overlapping incidents up to the open limit
+  if (time >= next.nextAlertAt) {
+    if (next.incidents.length < MAX_OPEN_INCIDENTS) {
+      next = spawnAlert(next, rng);
+    }
+    const interval = MIN_ALERT_INTERVAL + rng.next() * (MAX_ALERT_INTERVAL - MIN_ALERT_INTERVAL);
+    next = { ...next, nextAlertAt: time + interval };
+  }
+
+  next = updateTowerHealth(next, rng, dt);
+  next = sweepTowers(next, rng, dt);
+
+  // Patrol logging - pick a random patrolling drone
+  if (time >= next.nextPatrolLogAt) {
+    const patrollingDrones = next.drones.filter(d => d.status === 'patrolling');
+    next = { ...next, nextPatrolLogAt: next.nextPatrolLogAt + PATROL_LOG_INTERVAL };
+    if (patrollingDrones.length > 0) {
+      const drone = rng.pick(patrollingDrones);
+      next = appendLog(next, 'patrol', `${drone.id} patrolling - ${drone.sector}`);
+    }
+  }
+
+  // Auto-dispatch - the policy acts on incidents nobody has answered in time, highest priority first
+  for (const incident of incidentQueue(next.incidents)) {
+    if (isAwaitingDispatch(incident.status) && incident.autoDispatchAt !== null && time >= incident.autoDispatchAt) {
+      next = autoDispatch(next, incident);
+    }
+  }
+
+  // Live aircraft fly themselves - positions and batteries arrive through applyLiveDrones()
+  if (next.flightControl === 'sim') {
+    next = updateSentryPosts(next);
+    next = planRoutes(next);
+    const scratch: TickScratch = { patrols: { ...next.patrols }, routes: { ...next.routes } };
+    const moved = next.drones.map(drone => moveDrone(drone, next, scratch, time, dt));
+    const drones = updateBatteries(next.drones, moved, dt);
+    next = applyBatteryRules({ ...next, drones, ...scratch });
+  }
+
+  // Log arrival only once - the first assigned drone on scene
+  for (const incident of next.incidents) {
+    if (incident.status !== 'dispatched') continue;
+    const responder = next.drones.find(d =>
+      incident.droneIds.includes(d.id) && isOnScene(next, d, incidentTarget(incident))
+    );
+    if (responder) {
+      next = recordArrival(next, responder, incident);
+    }
+  }
+
+  return { ...next, rngState: rng.state() };
+}
+
+// Simulated drones arrive exactly at the end of their route; live aircraft within a radius
+function isOnScene(state: SimState, drone: Drone, scene: LatLng): boolean {
+  if (state.flightControl === 'external') {
+    return distanceMeters(drone, scene) <= LIVE_ARRIVAL_RADIUS;
+  }
+  return state.routes[drone.id]?.length === 0 && drone.lat === scene.lat && drone.lng === scene.lng;
+}
+
+// Run the simulation forward in fixed steps - used for headless runs
+export function advance(state: SimState, seconds: number): SimState {
+  let next = state;
+  const steps = Math.round(seconds / TICK_SECONDS);
+  for (let i = 0; i < steps; i++) {
+    next = tick(next);
+  }
+  return next;
+}
+
+// Assign a drone to an open incident - incidents may take several drones
+export function dispatchDrone(
+  state: SimState,
+  alertId: string,
+  droneId: string,
+  isManual: boolean = false,
+  by: string = SYSTEM_ACTOR,
+): SimState {
+  const drone = state.drones.find(d => d.id === droneId);
+  const incident = findIncident(state, alertId);
+  if (!drone || !incident || drone.status === 'responding') return state;
+
+  const { alert } = incident;
+  const scene = incidentTarget(incident);
+  const noFly = zonesAt(scene).find(zone => zone.type === 'no_fly');
+  if (noFly) {
+    return appendLog(
+      state,
+      'system',
+      `${drone.id} dispatch refused - ${alert.locationName} is inside no-fly zone ${noFly.name}`,
+      alert.id,
+    );
+  }
+  if (!canCompleteRoundTrip(drone, scene)) {
+    return appendLog(
+      state,
+      'system',
+      `${drone.id} dispatch refused - ${Math.round(drone.battery)}% battery cannot cover the round trip to ${alert.locationName}`,
+      alert.id,
+    );
+  }
+  const next = appendLog(
+    state,
+    'dispatch',
+    isManual
+      ? `${drone.id} manually dispatched to ${alert.locationName}`
+      : `${drone.id} dispatched to ${alert.locationName}`,
+    alert.id,
+  );
+
+  const patch: Partial<Incident> = {
+    droneIds: [...incident.droneIds, droneId],
+    responders: incident.responders.includes(droneId) ? incident.responders : [...incident.responders, droneId],
+    dispatchedAt: incident.dispatchedAt ?? state.time,
+    autoDispatchAt: null,
+  };
+  return {
+    ...(isAwaitingDispatch(incident.status)
+      ? transitionIncident(next, incident, 'dispatched', by, `${droneId} dispatched`, patch)
+      : updateIncident(next, alertId, patch)),
+    returnPads: withoutKey(next.returnPads, droneId),
+    sentryPosts: withoutKey(next.sentryPosts, droneId),
+    routes: withoutKey(next.routes, droneId),
+    drones: next.drones.map(d =>
+      d.id === droneId ? { ...d, status: 'responding' as const, speed: flightProfile.respondSpeed } : d
+    ),
+  };
+}
+
+// Apply the configured dispatch policy to an incident whose countdown ran out
+function autoDispatch(state: SimState, incident: Incident): SimState {
+  const policy = dispatchPolicies[state.dispatchSettings.policy];
+  const assignment = policy.assign(incident, state);
+  const { alert } = incident;
+
+  if (!assignment || assignment.droneIds.length === 0) {
+    const next = updateIncident(state, alert.id, { autoDispatchAt: state.time + AUTO_DISPATCH_RETRY });
+    return appendLog(next, 'system', `Auto-dispatch deferred for ${alert.locationName} - no drone available`, alert.id);
+  }
+
+  let next = updateIncident(state, alert.id, { autoDispatchAt: null });
+  next = appendLog(next, 'dispatch', `Auto-dispatch (${policy.name}): ${assignment.reason}`, alert.id);
+  const by = `auto-dispatch (${policy.name})`;
+  return assignment.droneIds.reduce((s, droneId) => dispatchDrone(s, alert.id, droneId, false, by), next);
+}
+
+// Operator override - stop an incident's countdown and leave it for manual dispatch
+export function holdAutoDispatch(state: SimState, alertId: string): SimState {
+  const incident = findIncident(state, alertId);
+  if (!incident || incident.autoDispatchAt === null) return state;
+  const next = updateIncident(state, alertId, { autoDispatchAt: null });
+  return appendLog(next, 'system', `Auto-dispatch held for ${incident.alert.locationName} - awaiting operator`, alertId);
+}
+
+// Change policy or auto mode; turning auto on starts countdowns for incidents already waiting
+export function setDispatchSettings(state: SimState, settings: Partial<DispatchSettings>): SimState {
+  const dispatchSettings = { ...state.dispatchSettings, ...settings };
+  let next: SimState = { ...state, dispatchSettings };
+
+  if (dispatchSettings.autoDispatch !== state.dispatchSettings.autoDispatch) {
+    next = {
+      ...next,
+      incidents: next.incidents.map(i => (isAwaitingDispatch(i.status)
+        ? { ...i, autoDispatchAt: autoDispatchDeadline(next) }
+        : i)),
+    };
+    next = appendLog(next, 'system', `Auto-dispatch ${dispatchSettings.autoDispatch ? 'enabled' : 'disabled'} - ${dispatchPolicies[dispatchSettings.policy].name}`);
+  }
+  return next;
+}
+
+// Operator decision on an incident - acknowledge it, or close it as resolved, false alarm or escalated.
+// Closing sends its drones home and archives it with the full transition history.
+export function setIncidentStatus(state: SimState, alertId: string, status: IncidentStatus, by: string, note: string = ''): SimState {
+  const incident = findIncident(state, alertId);
+  const operatorStatus = status === 'acknowledged' || isClosed(status);
+  if (!incident || !operatorStatus || !canTransition(incident.status, status)) return state;
+
+  const trimmed = note.trim();
+  let next = transitionIncident(state, incident, status, by, trimmed, isClosed(status) ? { autoDispatchAt: null } : {});
+  next = appendLog(
+    next,
+    'system',
+    `${incident.alert.id} ${incidentStatusLabels[status].toLowerCase()} by ${by} - ${trimmed || incident.alert.locationName}`,
+    alertId,
+  );
+  return isClosed(status) ? clearIncident(next, findIncident(next, alertId)!) : next;
+}
+
+// Operator override - freeze a tower camera's pan on a point of interest, or resume its sweep
+export function lockTowerPan(state: SimState, towerId: string, target: LatLng | null, by: string): SimState {
+  const tower = state.sentryTowers.find(t => t.id === towerId);
+  if (!tower || (target === null && tower.panLock === null)) return state;
+  const next = {
+    ...state,
+    sentryTowers: state.sentryTowers.map(t => (t.id === towerId ? { ...t, panLock: target } : t)),
+  };
+  return appendLog(
+    next,
+    'system',
+    target
+      ? `${tower.name} camera locked by ${by} - heading ${Math.round(headingTo(tower.position, target))}°`
+      : `${tower.name} camera released by ${by} - resuming sweep`,
+  );
+}
+
+// Operator puts a tower into maintenance, or returns it to service
+export function setTowerMaintenance(state: SimState, towerId: string, maintenance: boolean, by: string): SimState {
+  const health = state.towerHealth[towerId];
+  if (!health || health.maintenance === maintenance) return state;
+  // A working tower checks in as soon as it's powered back up
+  const lastHeartbeat = !maintenance && health.fault?.kind !== 'failed' ? state.time : health.lastHeartbeat;
+  return reportTowerHealth(
+    { ...state, towerHealth: { ...state.towerHealth, [towerId]: { ...health, maintenance, lastHeartbeat } } },
+    by,
+  );
+}
+
+// Install a new tower layout, e.g. one accepted from the placement optimizer. Detections
+// already made stay on their incidents; only the new towers sweep from here on.
+export function setSentryTowers(state: SimState, towers: SentryTower[], by: string): SimState {
+  const next = {
+    ...state,
+    sentryTowers: towers,
+    towerHealth: Object.fromEntries(towers.map(t => [t.id, state.towerHealth[t.id] ?? initialTowerHealth(state.time)])),
+  };
+  return appendLog(next, 'system', `Tower layout replaced by ${by} - ${towers.length} towers: ${towers.map(t => t.name).join(', ')}`);
+}
+
+// Replace the fleet with the latest live telemetry
+export function applyLiveDrones(state: SimState, drones: Drone[]): SimState {
+  return {
+    ...state,
+    drones,
+    metrics: {
+      ...state.metrics,
+      activeDrones: drones.filter(d => d.status !== 'idle').length,
+      totalDrones: drones.length,
+    },
+  };
+}
+
+// Load building footprints used, with no-fly zones, for obstacle-aware routing and for tower
+// line of sight; routes in flight are replanned
+export function setBuildings(state: SimState, buildings: OSMBuilding[]): SimState {
+  return {
+    ...state,
+    obstacles: buildObstacleGrid(buildings, geofenceZones),
+    sightObstacles: sightObstacles(buildings),
+    routes: {},
+  };
+}
+
+export type SimCommand =
+  | { type: 'tick'; dt?: number }
+  | { type: 'setBuildings'; buildings: OSMBuilding[] }
+  | { type: 'liveDrones'; drones: Drone[] }
+  | { type: 'dispatch'; alertId: string; droneId: string; isManual?: boolean; by?: string }
+  | { type: 'setIncidentStatus'; alertId: string; status: IncidentStatus; by: string; note?: string }
+  | { type: 'holdAutoDispatch'; alertId: string }
+  | { type: 'lockTowerPan'; towerId: string; target: LatLng | null; by: string }
+  | { type: 'setSentryTowers'; towers: SentryTower[]; by: string }
+  | { type: 'setTowerMaintenance'; towerId: string; maintenance: boolean; by: string }
+  | { type: 'setDispatchSettings'; settings: Partial<DispatchSettings> };
+
+// Reducer form of the API for useReducer and scripted runs
+export function simReducer(state: SimState, command: SimCommand): SimState {
+  switch (command.type) {
+    case 'tick':
+      return tick(state, command.dt);
+    case 'dispatch':
+      return dispatchDrone(state, command.alertId, command.droneId, command.isManual, command.by);
+    case 'setIncidentStatus':
+      return setIncidentStatus(state, command.alertId, command.status, command.by, command.note);
+    case 'setBuildings':
+      return setBuildings(state, command.buildings);
+    case 'liveDrones':
+      return applyLiveDrones(state, command.drones);
+    case 'holdAutoDispatch':
+      return holdAutoDispatch(state, command.alertId);
+    case 'setDispatchSettings':
+      return setDispatchSettings(state, command.settings);
+    case 'lockTowerPan':
+      return lockTowerPan(state, command.towerId, command.target, command.by);
+    case 'setSentryTowers':
+      return setSentryTowers(state, command.towers, command.by);
+    case 'setTowerMaintenance':
+      return setTowerMaintenance(state, command.towerId, command.maintenance, command.by);
+    default:
+      return state;
+  }
+}
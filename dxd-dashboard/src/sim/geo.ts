@@ -0,0 +1,65 @@
+// Geodesic helpers for movement in meters rather than raw degrees
+
+import { mapCenter } from '../data/mockData';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS = 6371000; // meters
+const toRad = (deg: number) => deg * Math.PI / 180;
+
+// Great-circle distance in meters (haversine)
+export function distanceMeters(a: LatLng, b: LatLng): number {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+// Compass heading in degrees from a to b (0 = north, 90 = east)
+export function headingTo(a: LatLng, b: LatLng): number {
+  const dNorth = b.lat - a.lat;
+  const dEast = (b.lng - a.lng) * Math.cos(toRad(a.lat));
+  return Math.atan2(dEast, dNorth) * (180 / Math.PI);
+}
+
+// Move from a toward b by up to `meters`, stopping exactly on b
+export function stepToward(a: LatLng, b: LatLng, meters: number): LatLng {
+  const distance = distanceMeters(a, b);
+  if (distance <= meters || distance === 0) return { lat: b.lat, lng: b.lng };
+  const ratio = meters / distance;
+  return {
+    lat: a.lat + (b.lat - a.lat) * ratio,
+    lng: a.lng + (b.lng - a.lng) * ratio,
+  };
+}
+
+// km/h to m/s
+export const kmhToMs = (kmh: number) => kmh / 3.6;
+
+// Local planar coordinates in meters - x east, y north
+export interface Point {
+  x: number;
+  y: number;
+}
+
+const PROJECTION_ORIGIN: LatLng = { lat: mapCenter[0], lng: mapCenter[1] };
+const METERS_PER_DEG_LAT = 111320;
+
+// Equirectangular projection around the map center - accurate to well under a meter across campus
+export function toLocal(p: LatLng, origin: LatLng = PROJECTION_ORIGIN): Point {
+  return {
+    x: (p.lng - origin.lng) * METERS_PER_DEG_LAT * Math.cos(toRad(origin.lat)),
+    y: (p.lat - origin.lat) * METERS_PER_DEG_LAT,
+  };
+}
+
+export function fromLocal(p: Point, origin: LatLng = PROJECTION_ORIGIN): LatLng {
+  return {
+    lat: origin.lat + p.y / METERS_PER_DEG_LAT,
+    lng: origin.lng + p.x / (METERS_PER_DEG_LAT * Math.cos(toRad(origin.lat))),
+  };
+}
@@ -0,0 +1,51 @@
+// Geofence queries - zone membership and segment crossing in local meter coordinates
+
+import { geofenceZones, noFlyZones } from '../data/geofences';
+import type { GeofenceZone } from '../data/geofences';
+import { toLocal } from './geo';
+import type { LatLng, Point } from './geo';
+import { pointInPolygon, segmentCrossesPolygon } from './geometry';
+
+// Zone polygon projected to local meters
+export function zonePolygon(zone: GeofenceZone): Point[] {
+  return zone.polygon.map(([lat, lng]) => toLocal({ lat, lng }));
+}
+
+const projected = new Map(geofenceZones.map(zone => [zone.id, zonePolygon(zone)]));
+
+function polygonOf(zone: GeofenceZone): Point[] {
+  return projected.get(zone.id) ?? zonePolygon(zone);
+}
+
+// Every zone containing a point
+export function zonesAt(point: LatLng, zones: GeofenceZone[] = geofenceZones): GeofenceZone[] {
+  const p = toLocal(point);
+  return zones.filter(zone => pointInPolygon(p, polygonOf(zone)));
+}
+
+// Whether a point is inside the secured perimeter
+export function isInsideGeofence(lat: number, lng: number): boolean {
+  return zonesAt({ lat, lng }).some(zone => zone.type === 'perimeter');
+}
+
+// Zones a straight flight leg from a to b enters or crosses
+export function zonesCrossed(a: LatLng, b: LatLng, zones: GeofenceZone[] = geofenceZones): GeofenceZone[] {
+  const pa = toLocal(a);
+  const pb = toLocal(b);
+  return zones.filter(zone => segmentCrossesPolygon(pa, pb, polygonOf(zone)));
+}
+
+// First no-fly zone a multi-leg path passes through, if any
+export function noFlyZoneOnPath(from: LatLng, path: LatLng[]): GeofenceZone | undefined {
+  let prev = from;
+  for (const point of path) {
+    const crossed = zonesCrossed(prev, point, noFlyZones);
+    if (crossed.length > 0) return crossed[0];
+    prev = point;
+  }
+  return undefined;
+}
+
+export function zoneById(id: string): GeofenceZone | undefined {
+  return geofenceZones.find(zone => zone.id === id);
+}
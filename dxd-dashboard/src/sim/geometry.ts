@@ -0,0 +1,92 @@
+// Planar polygon helpers - operate on local meter coordinates from toLocal()
+
+import type { Point } from './geo';
+
+// Polygon with holes cut out of it - a building around a courtyard
+export interface PolygonWithHoles {
+  outer: Point[];
+  holes: Point[][];
+}
+
+// Even-odd ray casting; works for concave polygons
+export function pointInPolygon(p: Point, polygon: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function pointInPolygonWithHoles(p: Point, shape: PolygonWithHoles): boolean {
+  return pointInPolygon(p, shape.outer) && !shape.holes.some(hole => pointInPolygon(p, hole));
+}
+
+export function distanceToSegment(p: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+// Distance from a point to the nearest polygon edge
+export function distanceToPolygonEdge(p: Point, polygon: Point[]): number {
+  let min = Infinity;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    min = Math.min(min, distanceToSegment(p, polygon[j], polygon[i]));
+  }
+  return min;
+}
+
+// Distance from a point to the nearest edge of the outline or any hole
+export function distanceToShapeEdge(p: Point, shape: PolygonWithHoles): number {
+  return Math.min(distanceToPolygonEdge(p, shape.outer), ...shape.holes.map(hole => distanceToPolygonEdge(p, hole)));
+}
+
+// Signed area of the triangle abc - positive when counter-clockwise
+function cross(a: Point, b: Point, c: Point): number {
+  return (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+}
+
+// Whether segments ab and cd intersect, including touching endpoints
+export function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+    return true;
+  }
+  const onSegment = (p: Point, q: Point, r: Point) =>
+    Math.min(p.x, q.x) <= r.x && r.x <= Math.max(p.x, q.x) &&
+    Math.min(p.y, q.y) <= r.y && r.y <= Math.max(p.y, q.y);
+  return (d1 === 0 && onSegment(c, d, a)) || (d2 === 0 && onSegment(c, d, b)) ||
+    (d3 === 0 && onSegment(a, b, c)) || (d4 === 0 && onSegment(a, b, d));
+}
+
+// Whether any part of segment ab lies inside the polygon
+export function segmentCrossesPolygon(a: Point, b: Point, polygon: Point[]): boolean {
+  if (pointInPolygon(a, polygon) || pointInPolygon(b, polygon)) return true;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    if (segmentsIntersect(a, b, polygon[j], polygon[i])) return true;
+  }
+  return false;
+}
+
+// Parameter t along ab where it crosses segment cd, or null if it doesn't. Parallel
+// segments never cross - sliding along an edge doesn't enter a polygon.
+export function crossingParameter(a: Point, b: Point, c: Point, d: Point): number | null {
+  const rx = b.x - a.x;
+  const ry = b.y - a.y;
+  const sx = d.x - c.x;
+  const sy = d.y - c.y;
+  const denom = rx * sy - ry * sx;
+  if (denom === 0) return null;
+  const t = ((c.x - a.x) * sy - (c.y - a.y) * sx) / denom;
+  const u = ((c.x - a.x) * ry - (c.y - a.y) * rx) / denom;
+  return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? t : null;
+}
@@ -0,0 +1,96 @@
+// Incident history - filtering closed incidents and rebuilding each one's timeline
+// from the activity log and its lifecycle transitions. Records carry their timeline so they
+// can be archived and reviewed after the session's log is gone.
+
+import type { Alert, LogEntry } from '../data/mockData';
+import { simDate } from './engine';
+import type { Incident, SimState } from './engine';
+import { incidentStatusLabels } from './incidentLifecycle';
+import type { IncidentStatus } from './incidentLifecycle';
+
+// Empty fields match everything
+export interface IncidentFilter {
+  from: Date | null;
+  to: Date | null;
+  type: Alert['type'] | '';
+  zoneId: string;
+  droneId: string;
+}
+
+export const emptyIncidentFilter: IncidentFilter = { from: null, to: null, type: '', zoneId: '', droneId: '' };
+
+export type TimelineEntry = {
+  id: string;
+  timestamp: Date;
+  message: string;
+} & ({ kind: LogEntry['type'] } | { kind: 'status'; status: IncidentStatus });
+
+// A closed incident with its timeline, from this session or read back from the archive
+export interface IncidentRecord {
+  key: string;     // session and alert id - alert ids restart every session
+  session: string;
+  incident: Incident;
+  timeline: TimelineEntry[];
+}
+
+// Identifies a session - the same seed and start time replay the same incidents
+export function sessionId(state: SimState): string {
+  return `${state.seed}@${state.startTime}`;
+}
+
+export function recordKey(session: string, alertId: string): string {
+  return `${session}/${alertId}`;
+}
+
+export function incidentRecord(state: SimState, incident: Incident): IncidentRecord {
+  const session = sessionId(state);
+  return {
+    key: recordKey(session, incident.alert.id),
+    session,
+    incident,
+    timeline: incidentTimeline(state, incident),
+  };
+}
+
+export function matchesFilter(incident: Incident, filter: IncidentFilter): boolean {
+  const { alert } = incident;
+  const time = alert.timestamp.getTime();
+  return (
+    (filter.from === null || time >= filter.from.getTime()) &&
+    (filter.to === null || time <= filter.to.getTime()) &&
+    (filter.type === '' || alert.type === filter.type) &&
+    (filter.zoneId === '' || alert.zones.includes(filter.zoneId)) &&
+    (filter.droneId === '' || incident.responders.includes(filter.droneId))
+  );
+}
+
+// Closed incidents matching the filter, most recent first
+export function searchIncidents(records: IncidentRecord[], filter: IncidentFilter): IncidentRecord[] {
+  return records
+    .filter(record => matchesFilter(record.incident, filter))
+    .sort((a, b) => b.incident.alert.timestamp.getTime() - a.incident.alert.timestamp.getTime());
+}
+
+// Seconds from detection until the first drone reached the scene, or null if none did
+export function detectionToArrival(incident: Incident): number | null {
+  return incident.arrivedAt === null ? null : incident.arrivedAt - incident.history[0].at;
+}
+
+// Tower detections, dispatches and arrivals from the log, interleaved with status changes
+export function incidentTimeline(state: SimState, incident: Incident): TimelineEntry[] {
+  const logEntries: TimelineEntry[] = state.logEntries
+    .filter(entry => entry.alertId === incident.alert.id)
+    .map(entry => ({ id: entry.id, timestamp: entry.timestamp, kind: entry.type, message: entry.message }));
+
+  // The first transition ('new') is already the alert's own log entry
+  const transitions: TimelineEntry[] = incident.history.slice(1).map((transition, i) => ({
+    id: `${incident.alert.id}-status-${i}`,
+    timestamp: simDate(state, transition.at),
+    kind: 'status',
+    status: transition.status,
+    message: `${incidentStatusLabels[transition.status]} - ${transition.by}${transition.note ? `: ${transition.note}` : ''}`,
+  }));
+
+  // Stable sort keeps log entries ahead of the transition made in the same step
+  return [...logEntries, ...transitions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
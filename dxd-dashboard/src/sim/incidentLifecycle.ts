@@ -0,0 +1,70 @@
+// Incident lifecycle - new → acknowledged → dispatched → on scene → resolved, false alarm or escalated.
+// Every transition is kept with who made it, when and why; closed incidents are what gets reported.
+
+export type IncidentStatus =
+  | 'new'
+  | 'acknowledged'
+  | 'dispatched'
+  | 'on_scene'
+  | 'resolved'
+  | 'false_alarm'
+  | 'escalated';
+
+export type IncidentOutcome = Extract<IncidentStatus, 'resolved' | 'false_alarm' | 'escalated'>;
+
+export interface IncidentTransition {
+  status: IncidentStatus;
+  at: number;   // sim time
+  by: string;   // operator name, or SYSTEM_ACTOR for engine-driven steps
+  note: string;
+}
+
+// Recorded as the author of transitions nobody clicked - arrivals, auto-dispatch, recalls
+export const SYSTEM_ACTOR = 'system';
+
+export const incidentOutcomes: IncidentOutcome[] = ['resolved', 'false_alarm', 'escalated'];
+
+// Legal next states. Dispatch and arrival are driven by the drones; a dispatched or on-scene
+// incident falls back to acknowledged if every assigned drone is recalled, so another is sent.
+const transitions: Record<IncidentStatus, IncidentStatus[]> = {
+  new: ['acknowledged', 'dispatched', 'false_alarm', 'escalated'],
+  acknowledged: ['dispatched', 'false_alarm', 'escalated'],
+  dispatched: ['acknowledged', 'on_scene', 'false_alarm', 'escalated'],
+  on_scene: ['acknowledged', 'resolved', 'false_alarm', 'escalated'],
+  resolved: [],
+  false_alarm: [],
+  escalated: [],
+};
+
+export function canTransition(from: IncidentStatus, to: IncidentStatus): boolean {
+  return transitions[from].includes(to);
+}
+
+export function isClosed(status: IncidentStatus): status is IncidentOutcome {
+  return (incidentOutcomes as IncidentStatus[]).includes(status);
+}
+
+// Open incidents no drone has been sent to yet
+export function isAwaitingDispatch(status: IncidentStatus): boolean {
+  return status === 'new' || status === 'acknowledged';
+}
+
+export const incidentStatusLabels: Record<IncidentStatus, string> = {
+  new: 'New',
+  acknowledged: 'Acknowledged',
+  dispatched: 'Dispatched',
+  on_scene: 'On scene',
+  resolved: 'Resolved',
+  false_alarm: 'False alarm',
+  escalated: 'Escalated',
+};
+
+export const incidentStatusColors: Record<IncidentStatus, string> = {
+  new: '#dc2626',          // red
+  acknowledged: '#f59e0b', // amber
+  dispatched: '#eab308',   // yellow
+  on_scene: '#22c55e',     // green
+  resolved: '#22c55e',
+  false_alarm: '#6b7280',  // gray
+  escalated: '#a855f7',    // purple
+};
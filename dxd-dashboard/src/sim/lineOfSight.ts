@@ -0,0 +1,148 @@
+// Line of sight from sentry tower cameras over building footprints
+// Buildings are their footprint polygons extruded to full height. A target is sampled at several heights
+// so a low wall can hide someone crouching but not someone standing.
+
+import type { OSMBuilding } from '../data/fetchOSMBuildings';
+import type { SentryTower } from '../data/sentryTowers';
+import { fromLocal, toLocal } from './geo';
+import type { LatLng, Point } from './geo';
+import { crossingParameter, pointInPolygonWithHoles } from './geometry';
+import type { PolygonWithHoles } from './geometry';
+import { buildingFootprint } from './pathPlanner';
+
+export interface SightObstacle {
+  footprint: PolygonWithHoles;
+  min: Point; // bounding box, for culling
+  max: Point;
+  base: number;   // meters - above zero for a raised building part
+  height: number; // meters
+}
+
+const TARGET_HEIGHTS = [0.5, 1.0, 1.5, 2.0]; // meters - ground to head height
+const VIEWSHED_RAYS = 72;
+const VIEWSHED_TARGET_HEIGHT = 1.5;          // standing person
+
+// Camera mount height in meters - also the mast height drawn in the 3D scene
+export function cameraHeight(tower: SentryTower): number {
+  return tower.type === 'elevated' ? 8 : 5;
+}
+
+export function sightObstacles(buildings: OSMBuilding[]): SightObstacle[] {
+  return buildings.map(building => {
+    const footprint = buildingFootprint(building);
+    const xs = footprint.outer.map(p => p.x);
+    const ys = footprint.outer.map(p => p.y);
+    return {
+      footprint,
+      min: { x: Math.min(...xs), y: Math.min(...ys) },
+      max: { x: Math.max(...xs), y: Math.max(...ys) },
+      base: building.minHeight ?? 0,
+      height: building.height,
+    };
+  });
+}
+
+// Whether a ground point is inside a building - courtyards aren't
+export function insideObstacle(obstacle: SightObstacle, p: Point): boolean {
+  return p.x >= obstacle.min.x && p.x <= obstacle.max.x && p.y >= obstacle.min.y && p.y <= obstacle.max.y &&
+    pointInPolygonWithHoles(p, obstacle.footprint);
+}
+
+// Parameter ranges [t0, t1] within [0, 1] where segment a-b is inside the footprint. Edge
+// crossings cut the segment into pieces, each wholly inside or outside - its midpoint decides.
+// A concave building can be entered more than once.
+function clipSegment(obstacle: SightObstacle, a: Point, b: Point): [number, number][] {
+  if (Math.max(a.x, b.x) < obstacle.min.x || Math.min(a.x, b.x) > obstacle.max.x ||
+      Math.max(a.y, b.y) < obstacle.min.y || Math.min(a.y, b.y) > obstacle.max.y) {
+    return [];
+  }
+
+  const cuts = [0, 1];
+  for (const ring of [obstacle.footprint.outer, ...obstacle.footprint.holes]) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const t = crossingParameter(a, b, ring[j], ring[i]);
+      if (t !== null) cuts.push(t);
+    }
+  }
+  cuts.sort((p, q) => p - q);
+
+  const spans: [number, number][] = [];
+  for (let i = 0; i < cuts.length - 1; i++) {
+    const [t0, t1] = [cuts[i], cuts[i + 1]];
+    if (t1 - t0 < 1e-9) continue;
+    const mid = (t0 + t1) / 2;
+    if (!pointInPolygonWithHoles({ x: a.x + (b.x - a.x) * mid, y: a.y + (b.y - a.y) * mid }, obstacle.footprint)) continue;
+    const last = spans[spans.length - 1];
+    if (last && t0 - last[1] < 1e-9) last[1] = t1;
+    else spans.push([t0, t1]);
+  }
+  return spans;
+}
+
+// Obstacles that can block a sight line - the building the tower stands on and the one
+// the target is at (alerts are reported at buildings) never hide it
+function blockers(obstacles: SightObstacle[], from: Point, to: Point): SightObstacle[] {
+  return obstacles.filter(o => !insideObstacle(o, from) && !insideObstacle(o, to));
+}
+
+// Sight line from a camera at height hc to a target at height ht, straight over the ground
+function lineClear(obstacles: SightObstacle[], from: Point, to: Point, hc: number, ht: number): boolean {
+  return obstacles.every(obstacle => clipSegment(obstacle, from, to).every(span => {
+    // The line's height varies linearly, so its lowest and highest points over the building are
+    // at the ends of a span - clear if it passes wholly over, or wholly under a raised part
+    const ends = [hc + (ht - hc) * span[0], hc + (ht - hc) * span[1]];
+    return Math.min(...ends) >= obstacle.height || Math.max(...ends) <= obstacle.base;
+  }));
+}
+
+// Fraction of the target's height the tower camera can see: 0 hidden, 1 fully visible
+export function towerVisibility(tower: SentryTower, target: LatLng, obstacles: SightObstacle[]): number {
+  const from = toLocal(tower.position);
+  const to = toLocal(target);
+  const relevant = blockers(obstacles, from, to);
+  const hc = cameraHeight(tower);
+  const visible = TARGET_HEIGHTS.filter(ht => lineClear(relevant, from, to, hc, ht)).length;
+  return visible / TARGET_HEIGHTS.length;
+}
+
+// Area the tower can actually see - on each ray, out to the first building that hides a
+// standing person or the detection radius. Ground seen again past a low roof is ignored.
+export function viewshed(tower: SentryTower, obstacles: SightObstacle[]): LatLng[] {
+  const from = toLocal(tower.position);
+  const hc = cameraHeight(tower);
+  const radius = tower.detectionRadius;
+  const ht = VIEWSHED_TARGET_HEIGHT;
+
+  // Only buildings that reach into the detection circle matter
+  // Raised parts above the camera are always looked under
+  const nearby = obstacles.filter(o =>
+    !insideObstacle(o, from) && o.base < hc &&
+    o.max.x >= from.x - radius && o.min.x <= from.x + radius &&
+    o.max.y >= from.y - radius && o.min.y <= from.y + radius
+  );
+
+  const polygon: LatLng[] = [];
+  for (let i = 0; i < VIEWSHED_RAYS; i++) {
+    const angle = (i / VIEWSHED_RAYS) * Math.PI * 2;
+    const end = { x: from.x + Math.sin(angle) * radius, y: from.y + Math.cos(angle) * radius };
+
+    let reach = radius;
+    for (const obstacle of nearby) {
+      for (const span of clipSegment(obstacle, from, end)) {
+        const entry = span[0] * radius;
+        if (entry >= reach) break;
+        // Standing at the wall the target is hidden if the roof is above the camera;
+        // a roof below the camera only shadows ground up to where the sight line clears it
+        if (obstacle.height >= hc) {
+          reach = entry;
+        } else {
+          const exit = span[1] * radius;
+          const shadowEnd = (hc - ht) * exit / (hc - obstacle.height);
+          if (shadowEnd > exit) reach = Math.min(reach, exit);
+        }
+      }
+    }
+    polygon.push(fromLocal({ x: from.x + Math.sin(angle) * reach, y: from.y + Math.cos(angle) * reach }));
+  }
+  return polygon;
+}
@@ -0,0 +1,460 @@
+// Obstacle-aware 3D path planning
+// Buildings are rasterized into a 2D height grid; flight happens on a few fixed altitude
+// layers. A* searches cells x layers, then the result is string-pulled into a short
+// list of 3D waypoints that clear every building by a safety margin.
+// No-fly zones are blocked at every altitude.
+
+import type { OSMBuilding } from '../data/fetchOSMBuildings';
+import type { GeofenceZone } from '../data/geofences';
+import { distanceMeters, fromLocal, toLocal } from './geo';
+import type { LatLng, Point } from './geo';
+import { distanceToShapeEdge, pointInPolygonWithHoles } from './geometry';
+import type { PolygonWithHoles } from './geometry';
+import { zonePolygon } from './geofence';
+
+export interface RoutePoint extends LatLng {
+  alt: number; // meters above ground
+}
+
+export interface ObstacleGrid {
+  origin: Point;         // local meters of cell (0, 0)'s corner
+  cellSize: number;      // meters
+  cols: number;
+  rows: number;
+  heights: Float32Array; // tallest obstacle (plus clearance) per cell; Infinity where no-fly
+}
+
+// Altitude layers available to the planner, lowest first
+export const FLIGHT_LAYERS = [15, 30, 45];
+
+const CELL_SIZE = 10;          // meters
+const HORIZONTAL_CLEARANCE = 4; // meters kept from building walls
+const VERTICAL_CLEARANCE = 2;   // meters kept above roofs
+const HEIGHT_MARGIN = 1.2;      // covers per-building height variation in the scene
+const CLIMB_COST = 2;           // a meter of climb costs as much as this many meters of travel
+const GRID_PADDING = 100;       // meters of open grid around the outermost building
+
+// Building outline in local meters - its mapped footprint, or its bounding box if it has none
+export function buildingFootprint(building: OSMBuilding): PolygonWithHoles {
+  if (building.footprint) {
+    return {
+      outer: building.footprint.outer.map(p => toLocal(p)),
+      holes: building.footprint.holes.map(hole => hole.map(p => toLocal(p))),
+    };
+  }
+  const c = toLocal(building);
+  const hw = building.width / 2;
+  const hd = building.depth / 2;
+  return {
+    outer: [
+      { x: c.x - hw, y: c.y - hd },
+      { x: c.x + hw, y: c.y - hd },
+      { x: c.x + hw, y: c.y + hd },
+      { x: c.x - hw, y: c.y + hd },
+    ],
+    holes: [],
+  };
+}
+
+// Rasterize building footprints and no-fly zones into a height grid.
+// Every zone widens the grid so routes across the whole facility stay on it.
+export function buildObstacleGrid(buildings: OSMBuilding[], zones: GeofenceZone[] = []): ObstacleGrid | null {
+  if (buildings.length === 0 && zones.length === 0) return null;
+
+  const footprints = [
+    ...buildings.map(b => ({
+      shape: buildingFootprint(b),
+      height: b.height * HEIGHT_MARGIN + VERTICAL_CLEARANCE,
+    })),
+    ...zones.filter(z => z.type === 'no_fly').map(z => ({ shape: { outer: zonePolygon(z), holes: [] }, height: Infinity })),
+  ];
+
+  const extents = [...footprints.map(f => f.shape.outer), ...zones.map(zonePolygon)];
+  const xs = extents.flatMap(polygon => polygon.map(p => p.x));
+  const ys = extents.flatMap(polygon => polygon.map(p => p.y));
+  const origin = { x: Math.min(...xs) - GRID_PADDING, y: Math.min(...ys) - GRID_PADDING };
+  const cols = Math.ceil((Math.max(...xs) + GRID_PADDING - origin.x) / CELL_SIZE);
+  const rows = Math.ceil((Math.max(...ys) + GRID_PADDING - origin.y) / CELL_SIZE);
+  const heights = new Float32Array(cols * rows);
+
+  // A cell is blocked if any part of it comes within the clearance of a footprint
+  const reach = HORIZONTAL_CLEARANCE + CELL_SIZE * Math.SQRT1_2;
+
+  for (const { shape, height } of footprints) {
+    const polygon = shape.outer;
+    const minCol = Math.max(0, Math.floor((Math.min(...polygon.map(p => p.x)) - reach - origin.x) / CELL_SIZE));
+    const maxCol = Math.min(cols - 1, Math.floor((Math.max(...polygon.map(p => p.x)) + reach - origin.x) / CELL_SIZE));
+    const minRow = Math.max(0, Math.floor((Math.min(...polygon.map(p => p.y)) - reach - origin.y) / CELL_SIZE));
+    const maxRow = Math.min(rows - 1, Math.floor((Math.max(...polygon.map(p => p.y)) + reach - origin.y) / CELL_SIZE));
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        const center = { x: origin.x + (col + 0.5) * CELL_SIZE, y: origin.y + (row + 0.5) * CELL_SIZE };
+        if (pointInPolygonWithHoles(center, shape) || distanceToShapeEdge(center, shape) <= reach) {
+          const i = row * cols + col;
+          heights[i] = Math.max(heights[i], height);
+        }
+      }
+    }
+  }
+
+  return { origin, cellSize: CELL_SIZE, cols, rows, heights };
+}
+
+function cellOf(grid: ObstacleGrid, p: Point): { col: number; row: number } | null {
+  const col = Math.floor((p.x - grid.origin.x) / grid.cellSize);
+  const row = Math.floor((p.y - grid.origin.y) / grid.cellSize);
+  if (col < 0 || row < 0 || col >= grid.cols || row >= grid.rows) return null;
+  return { col, row };
+}
+
+function cellCenter(grid: ObstacleGrid, col: number, row: number): Point {
+  return {
+    x: grid.origin.x + (col + 0.5) * grid.cellSize,
+    y: grid.origin.y + (row + 0.5) * grid.cellSize,
+  };
+}
+
+function isFree(grid: ObstacleGrid, col: number, row: number, alt: number): boolean {
+  return grid.heights[row * grid.cols + col] < alt;
+}
+
+// Tallest obstacle under a straight segment.
+// Walks every cell the segment touches (grid DDA) rather than sampling points.
+function segmentCeiling(grid: ObstacleGrid, a: Point, b: Point): number {
+  const { origin, cellSize } = grid;
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  let col = Math.floor((a.x - origin.x) / cellSize);
+  let row = Math.floor((a.y - origin.y) / cellSize);
+  const endCol = Math.floor((b.x - origin.x) / cellSize);
+  const endRow = Math.floor((b.y - origin.y) / cellSize);
+  const stepCol = Math.sign(dx);
+  const stepRow = Math.sign(dy);
+  const tDeltaX = dx !== 0 ? cellSize / Math.abs(dx) : Infinity;
+  const tDeltaY = dy !== 0 ? cellSize / Math.abs(dy) : Infinity;
+  let tMaxX = dx > 0 ? (origin.x + (col + 1) * cellSize - a.x) / dx
+    : dx < 0 ? (origin.x + col * cellSize - a.x) / dx : Infinity;
+  let tMaxY = dy > 0 ? (origin.y + (row + 1) * cellSize - a.y) / dy
+    : dy < 0 ? (origin.y + row * cellSize - a.y) / dy : Infinity;
+
+  let ceiling = 0;
+  const maxSteps = Math.abs(endCol - col) + Math.abs(endRow - row) + 1;
+  for (let i = 0; i <= maxSteps; i++) {
+    const inGrid = col >= 0 && row >= 0 && col < grid.cols && row < grid.rows;
+    if (inGrid) ceiling = Math.max(ceiling, grid.heights[row * grid.cols + col]);
+    if (col === endCol && row === endRow) break;
+    if (tMaxX < tMaxY) {
+      col += stepCol;
+      tMaxX += tDeltaX;
+    } else {
+      row += stepRow;
+      tMaxY += tDeltaY;
+    }
+  }
+  return ceiling;
+}
+
+// Whether a straight segment stays clear of obstacles at a given altitude
+function segmentClear(grid: ObstacleGrid, a: Point, b: Point, alt: number): boolean {
+  return segmentCeiling(grid, a, b) < alt;
+}
+
+// Closest cell to a blocked one that is open at some flight layer, searched ring by ring.
+// Ties go to the cell nearer `toward`, so the approach is from the near side.
+function nearestFreeCell(
+  grid: ObstacleGrid,
+  col: number,
+  row: number,
+  toward: { col: number; row: number },
+): { col: number; row: number } | null {
+  const top = FLIGHT_LAYERS[FLIGHT_LAYERS.length - 1];
+  const maxRadius = Math.max(grid.cols, grid.rows);
+  let best: { col: number; row: number } | null = null;
+  let bestDistance = Infinity;
+  let bestDetour = Infinity;
+  for (let radius = 1; radius <= maxRadius; radius++) {
+    // A later ring can still hold a cell closer than this ring's corners
+    if (best && radius > bestDistance) break;
+    for (let dr = -radius; dr <= radius; dr++) {
+      for (let dc = -radius; dc <= radius; dc++) {
+        if (Math.max(Math.abs(dc), Math.abs(dr)) !== radius) continue;
+        const c = col + dc;
+        const r = row + dr;
+        if (c < 0 || r < 0 || c >= grid.cols || r >= grid.rows || !isFree(grid, c, r, top)) continue;
+        const distance = Math.hypot(dc, dr);
+        const detour = Math.hypot(c - toward.col, r - toward.row);
+        if (distance < bestDistance - 1e-9 || (distance < bestDistance + 1e-9 && detour < bestDetour)) {
+          best = { col: c, row: r };
+          bestDistance = distance;
+          bestDetour = detour;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+// Lowest layer at or above `minAlt` that is free over a cell
+function entryLayer(grid: ObstacleGrid, col: number, row: number, minAlt: number): number {
+  const index = FLIGHT_LAYERS.findIndex(alt => alt >= minAlt && isFree(grid, col, row, alt));
+  return index >= 0 ? index : FLIGHT_LAYERS.length - 1;
+}
+
+// Minimal binary heap keyed on f-score
+class MinHeap {
+  private items: { node: number; f: number }[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(node: number, f: number) {
+    const items = this.items;
+    items.push({ node, f });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].f <= items[i].f) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0].node;
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < items.length && items[l].f < items[smallest].f) smallest = l;
+        if (r < items.length && items[r].f < items[smallest].f) smallest = r;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+const NEIGHBORS = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1],
+];
+
+// A* over (col, row, layer); returns node indices from start to goal
+function search(
+  grid: ObstacleGrid,
+  start: { col: number; row: number; layer: number },
+  goal: { col: number; row: number; layer: number },
+): number[] | null {
+  const { cols, rows, cellSize } = grid;
+  const perLayer = cols * rows;
+  const total = perLayer * FLIGHT_LAYERS.length;
+  const index = (col: number, row: number, layer: number) => layer * perLayer + row * cols + col;
+
+  const g = new Float64Array(total).fill(Infinity);
+  const cameFrom = new Int32Array(total).fill(-1);
+  const closed = new Uint8Array(total);
+  const heuristic = (col: number, row: number, layer: number) =>
+    Math.hypot(col - goal.col, row - goal.row) * cellSize +
+    Math.abs(FLIGHT_LAYERS[layer] - FLIGHT_LAYERS[goal.layer]) * CLIMB_COST;
+
+  const startIndex = index(start.col, start.row, start.layer);
+  const goalIndex = index(goal.col, goal.row, goal.layer);
+  const open = new MinHeap();
+  g[startIndex] = 0;
+  open.push(startIndex, heuristic(start.col, start.row, start.layer));
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (current === goalIndex) {
+      const path = [current];
+      while (cameFrom[path[0]] !== -1) path.unshift(cameFrom[path[0]]);
+      return path;
+    }
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    const layer = Math.floor(current / perLayer);
+    const row = Math.floor((current % perLayer) / cols);
+    const col = current % cols;
+    const alt = FLIGHT_LAYERS[layer];
+
+    const relax = (nCol: number, nRow: number, nLayer: number, cost: number) => {
+      const n = index(nCol, nRow, nLayer);
+      if (closed[n]) return;
+      const tentative = g[current] + cost;
+      if (tentative < g[n]) {
+        g[n] = tentative;
+        cameFrom[n] = current;
+        open.push(n, tentative + heuristic(nCol, nRow, nLayer));
+      }
+    };
+
+    for (const [dc, dr] of NEIGHBORS) {
+      const nCol = col + dc;
+      const nRow = row + dr;
+      if (nCol < 0 || nRow < 0 || nCol >= cols || nRow >= rows) continue;
+      if (!isFree(grid, nCol, nRow, alt)) continue;
+      // No corner cutting past a blocked cell on diagonals
+      if (dc !== 0 && dr !== 0 && (!isFree(grid, col + dc, row, alt) || !isFree(grid, col, row + dr, alt))) continue;
+      relax(nCol, nRow, layer, Math.hypot(dc, dr) * cellSize);
+    }
+
+    for (const dl of [-1, 1]) {
+      const nLayer = layer + dl;
+      if (nLayer < 0 || nLayer >= FLIGHT_LAYERS.length) continue;
+      if (!isFree(grid, col, row, FLIGHT_LAYERS[nLayer])) continue;
+      relax(col, row, nLayer, Math.abs(FLIGHT_LAYERS[nLayer] - alt) * CLIMB_COST);
+    }
+  }
+
+  return null;
+}
+
+// Drop intermediate points wherever a straight segment is still clear
+function stringPull(grid: ObstacleGrid, points: { p: Point; alt: number }[]): { p: Point; alt: number }[] {
+  const result = [points[0]];
+  let anchor = 0;
+  while (anchor < points.length - 1) {
+    let next = anchor + 1;
+    for (let j = points.length - 1; j > anchor + 1; j--) {
+      // Judge the shortcut at the lowest altitude it passes through
+      const minAlt = Math.min(...points.slice(anchor, j + 1).map(pt => pt.alt));
+      if (points[anchor].alt === points[j].alt && segmentClear(grid, points[anchor].p, points[j].p, minAlt)) {
+        next = j;
+        break;
+      }
+    }
+    result.push(points[next]);
+    anchor = next;
+  }
+  return result;
+}
+
+// Lowest safe hover altitude over a point - at least `minAlt`, above any roof there
+export function clearAltitude(grid: ObstacleGrid | null, point: LatLng, minAlt: number): number {
+  const cell = grid ? cellOf(grid, toLocal(point)) : null;
+  if (!grid || !cell) return minAlt;
+  const height = grid.heights[cell.row * grid.cols + cell.col];
+  return Number.isFinite(height) ? Math.max(minAlt, height) : minAlt;
+}
+
+// Plan a collision-free route from a position and altitude to a target altitude over a point.
+// The route excludes the start and ends exactly at the target.
+export function planRoute(
+  grid: ObstacleGrid | null,
+  from: LatLng,
+  fromAlt: number,
+  to: LatLng,
+  toAlt: number,
+): RoutePoint[] {
+  const cruise = FLIGHT_LAYERS[FLIGHT_LAYERS.length - 1];
+  const direct: RoutePoint[] = [
+    { lat: from.lat, lng: from.lng, alt: Math.max(fromAlt, cruise) },
+    { lat: to.lat, lng: to.lng, alt: Math.max(toAlt, cruise) },
+    { lat: to.lat, lng: to.lng, alt: toAlt },
+  ];
+  if (!grid) return direct;
+
+  const a = toLocal(from);
+  const b = toLocal(to);
+  const startCell = cellOf(grid, a);
+  const targetCell = cellOf(grid, b);
+  if (!startCell || !targetCell) return direct;
+
+  // A target over an obstacle taller than every layer (a high roof) can't be reached on the
+  // grid - search to the nearest open cell instead and hop over from there
+  const blocked = !isFree(grid, targetCell.col, targetCell.row, FLIGHT_LAYERS[FLIGHT_LAYERS.length - 1]);
+  const goalCell = blocked ? nearestFreeCell(grid, targetCell.col, targetCell.row, startCell) : targetCell;
+  if (!goalCell) return direct;
+
+  const start = { ...startCell, layer: entryLayer(grid, startCell.col, startCell.row, fromAlt) };
+  const goal = { ...goalCell, layer: entryLayer(grid, goalCell.col, goalCell.row, toAlt) };
+  const path = search(grid, start, goal);
+  if (!path) return direct;
+
+  const perLayer = grid.cols * grid.rows;
+  const nodes = path.map(n => {
+    const layer = Math.floor(n / perLayer);
+    const row = Math.floor((n % perLayer) / grid.cols);
+    const col = n % grid.cols;
+    return { p: cellCenter(grid, col, row), alt: FLIGHT_LAYERS[layer] };
+  });
+
+  // Exact start and goal positions instead of cell centers
+  nodes[0] = { p: a, alt: nodes[0].alt };
+  if (!blocked) nodes[nodes.length - 1] = { p: b, alt: nodes[nodes.length - 1].alt };
+
+  const route: RoutePoint[] = stringPull(grid, nodes).map(({ p, alt }) => ({ ...fromLocal(p), alt }));
+  route[0] = { lat: from.lat, lng: from.lng, alt: route[0].alt };
+  if (blocked) {
+    // Climb above everything between the open cell and the target, cross, then settle
+    const approach = nodes[nodes.length - 1];
+    const ceiling = segmentCeiling(grid, approach.p, b);
+    const hopAlt = Number.isFinite(ceiling) ? Math.max(toAlt, ceiling, approach.alt) : Math.max(toAlt, approach.alt);
+    if (hopAlt !== approach.alt) route.push({ ...fromLocal(approach.p), alt: hopAlt });
+    route.push({ lat: to.lat, lng: to.lng, alt: hopAlt });
+  } else {
+    route[route.length - 1] = { lat: to.lat, lng: to.lng, alt: route[route.length - 1].alt };
+  }
+
+  // Final vertical leg down (or up) to the requested altitude
+  if (route[route.length - 1].alt !== toAlt) {
+    route.push({ lat: to.lat, lng: to.lng, alt: toAlt });
+  }
+  // Skip the climb-out point if the drone is already there
+  if (route[0].alt === fromAlt) route.shift();
+
+  return route;
+}
+
+// Fly `meters` along a route; returns the new position and the waypoints still ahead
+export function followRoute(
+  from: RoutePoint,
+  route: RoutePoint[],
+  meters: number,
+): { position: RoutePoint; route: RoutePoint[] } {
+  let position = from;
+  let remaining = route;
+  let budget = meters;
+
+  while (remaining.length > 0 && budget > 0) {
+    const target = remaining[0];
+    const horizontal = distanceMeters(position, target);
+    const distance = Math.hypot(horizontal, target.alt - position.alt);
+    if (distance <= budget) {
+      position = target;
+      remaining = remaining.slice(1);
+      budget -= distance;
+    } else {
+      const t = budget / distance;
+      position = {
+        lat: position.lat + (target.lat - position.lat) * t,
+        lng: position.lng + (target.lng - position.lng) * t,
+        alt: position.alt + (target.alt - position.alt) * t,
+      };
+      budget = 0;
+    }
+  }
+
+  return { position, route: remaining };
+}
+
+// Total 3D length of a route starting from a given position
+export function routeLength(from: RoutePoint, route: RoutePoint[]): number {
+  let length = 0;
+  let prev = from;
+  for (const point of route) {
+    length += Math.hypot(distanceMeters(prev, point), point.alt - prev.alt);
+    prev = point;
+  }
+  return length;
+}
@@ -0,0 +1,81 @@
+// Waypoint patrol - flies a named route at ground speed, dwelling at each waypoint
+
+import type { Drone } from '../data/mockData';
+import type { DroneConfig } from '../data/droneConfigs';
+import { patrolRoutes } from '../data/patrolRoutes';
+import type { Waypoint } from '../data/patrolRoutes';
+import { headingTo, kmhToMs, stepToward } from './geo';
+
+const DEFAULT_GROUND_SPEED = 30; // km/h
+const DEFAULT_DWELL = 0;
+
+export interface PatrolProgress {
+  waypoint: number;          // index of the waypoint being flown to (or held at)
+  direction: 1 | -1;         // ping-pong travel direction
+  dwellUntil: number | null; // sim time the current hold ends
+}
+
+export function routeFor(config: DroneConfig | undefined): Waypoint[] {
+  return config?.route ? patrolRoutes[config.route] ?? [] : [];
+}
+
+export function initialPatrol(): PatrolProgress {
+  return { waypoint: 0, direction: 1, dwellUntil: null };
+}
+
+// Pick the waypoint after the current one for loop or ping-pong routes
+function nextWaypoint(progress: PatrolProgress, length: number, pattern: DroneConfig['pattern']): PatrolProgress {
+  if (length < 2) return { ...progress, dwellUntil: null };
+
+  if (pattern === 'pingpong') {
+    let direction = progress.direction;
+    if (progress.waypoint + direction < 0 || progress.waypoint + direction >= length) {
+      direction = -direction as 1 | -1;
+    }
+    return { waypoint: progress.waypoint + direction, direction, dwellUntil: null };
+  }
+
+  return { waypoint: (progress.waypoint + 1) % length, direction: 1, dwellUntil: null };
+}
+
+// Advance a patrolling drone by dt seconds along its route
+export function advancePatrol(
+  drone: Drone,
+  progress: PatrolProgress,
+  config: DroneConfig,
+  time: number,
+  dt: number,
+): { drone: Drone; progress: PatrolProgress } {
+  const route = routeFor(config);
+  if (route.length === 0) return { drone, progress };
+
+  const target = route[progress.waypoint % route.length];
+
+  // Holding at a waypoint
+  if (progress.dwellUntil !== null) {
+    if (time < progress.dwellUntil) {
+      return { drone: { ...drone, speed: 0, sector: target.name }, progress };
+    }
+    progress = nextWaypoint(progress, route.length, config.pattern);
+    return advancePatrol(drone, progress, config, time, dt);
+  }
+
+  const groundSpeed = config.groundSpeed ?? DEFAULT_GROUND_SPEED;
+  const position = stepToward(drone, target, kmhToMs(groundSpeed) * dt);
+  const arrived = position.lat === target.lat && position.lng === target.lng;
+
+  return {
+    drone: {
+      ...drone,
+      status: 'patrolling',
+      lat: position.lat,
+      lng: position.lng,
+      heading: arrived ? drone.heading : headingTo(drone, target),
+      speed: groundSpeed,
+      sector: target.name,
+    },
+    progress: arrived
+      ? { ...progress, dwellUntil: time + (config.dwell ?? DEFAULT_DWELL) }
+      : progress,
+  };
+}
@@ -0,0 +1,106 @@
+// Session recording and replay
+// The engine is deterministic, so a session is fully described by its options and the
+// commands it received. Ticks are implicit: each recorded command carries the number of
+// ticks that ran before it, and replay re-runs the engine up to any step.
+
+import { createSimState, simReducer, TICK_SECONDS } from './engine';
+import type { SimCommand, SimOptions, SimState } from './engine';
+
+const RECORDING_VERSION = 1;
+const KEYFRAME_STEPS = 200; // cached state every 10s of sim time for fast scrubbing
+
+export interface RecordedCommand {
+  step: number; // ticks completed before the command
+  command: Exclude<SimCommand, { type: 'tick' }>;
+}
+
+export interface SessionRecording {
+  version: number;
+  recordedAt: string; // ISO timestamp the session started
+  options: SimOptions;
+  steps: number;      // total ticks in the session
+  commands: RecordedCommand[];
+}
+
+export function createRecording(options: SimOptions): SessionRecording {
+  return {
+    version: RECORDING_VERSION,
+    recordedAt: new Date(options.startTime).toISOString(),
+    options,
+    steps: 0,
+    commands: [],
+  };
+}
+
+// Append a command; ticks only advance the step counter.
+// Mutates in place - recordings grow by the thousand and are never shared while recording.
+export function recordCommand(recording: SessionRecording, command: SimCommand): void {
+  if (command.type === 'tick') {
+    recording.steps++;
+  } else {
+    recording.commands.push({ step: recording.steps, command });
+  }
+}
+
+export function recordingDuration(recording: SessionRecording): number {
+  return recording.steps * TICK_SECONDS;
+}
+
+export function serializeRecording(recording: SessionRecording): string {
+  return JSON.stringify(recording);
+}
+
+export function parseRecording(json: string): SessionRecording {
+  const data = JSON.parse(json);
+  if (data?.version !== RECORDING_VERSION || !Array.isArray(data.commands) || typeof data.steps !== 'number') {
+    throw new Error('Not a DXD session recording');
+  }
+  return data as SessionRecording;
+}
+
+// Rebuilds engine state at any step of a recording, caching keyframes along the way
+export class SessionReplay {
+  readonly recording: SessionRecording;
+  private keyframes = new Map<number, { state: SimState; nextCommand: number }>();
+  private last: { step: number; state: SimState; nextCommand: number };
+
+  constructor(recording: SessionRecording) {
+    this.recording = recording;
+    this.last = { step: 0, state: createSimState(recording.options), nextCommand: 0 };
+    this.keyframes.set(0, this.last);
+  }
+
+  stateAt(step: number): SimState {
+    const target = Math.max(0, Math.min(step, this.recording.steps));
+
+    // Resume from the latest point at or before the target
+    let from = this.last.step <= target ? this.last : undefined;
+    const keyframeStep = Math.floor(target / KEYFRAME_STEPS) * KEYFRAME_STEPS;
+    const keyframe = this.keyframes.get(keyframeStep);
+    if (keyframe && (!from || keyframeStep > from.step)) {
+      from = { step: keyframeStep, ...keyframe };
+    }
+    if (!from) {
+      const nearest = Math.max(...[...this.keyframes.keys()].filter(k => k <= target));
+      from = { step: nearest, ...this.keyframes.get(nearest)! };
+    }
+
+    let { state, nextCommand } = from;
+    const { commands } = this.recording;
+    for (let s = from.step; ; s++) {
+      // Commands recorded before this tick
+      while (nextCommand < commands.length && commands[nextCommand].step <= s) {
+        state = simReducer(state, commands[nextCommand].command);
+        nextCommand++;
+      }
+      if (s % KEYFRAME_STEPS === 0 && !this.keyframes.has(s)) {
+        this.keyframes.set(s, { state, nextCommand });
+      }
+      if (s === target) break;
+      state = simReducer(state, { type: 'tick' });
+    }
+
+    this.last = { step: target, state, nextCommand };
+    return state;
+  }
+}
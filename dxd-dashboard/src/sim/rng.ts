@@ -0,0 +1,41 @@
+// Seeded pseudo-random number generator (mulberry32)
+// The generator state is a single 32-bit integer so it can live inside SimState
+// and be carried from tick to tick without any hidden globals.
+
+export interface Rng {
+  next: () => number;
+  int: (maxExclusive: number) => number;
+  normal: () => number; // standard normal
+  pick: <T>(items: readonly T[]) => T;
+  state: () => number;
+}
+
+// Scramble a user-facing seed into a well-distributed initial state
+export function hashSeed(seed: number): number {
+  let h = Math.floor(seed) ^ 0x9e3779b9;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+// Resume a generator from a stored state
+export function createRng(initialState: number): Rng {
+  let s = initialState >>> 0;
+
+  const next = () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (maxExclusive) => Math.floor(next() * maxExclusive),
+    // Box-Muller - 1 - next() keeps the log argument above zero
+    normal: () => Math.sqrt(-2 * Math.log(1 - next())) * Math.cos(2 * Math.PI * next()),
+    pick: (items) => items[Math.floor(next() * items.length)],
+    state: () => s,
+  };
+}
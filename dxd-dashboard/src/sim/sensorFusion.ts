@@ -0,0 +1,192 @@
+// Sensor fusion - each tower camera that sweeps over the threat reports a noisy bearing to it
+// with a confidence, and the bearings are intersected by weighted least squares into a position
+// estimate with a 95% uncertainty ellipse. Drones are sent to the estimate, not the true alert point.
+
+import type { SentryTower } from '../data/sentryTowers';
+import { distanceMeters, fromLocal, headingTo, toLocal } from './geo';
+import type { LatLng, Point } from './geo';
+import type { Rng } from './rng';
+import { towerVisibility } from './lineOfSight';
+import type { SightObstacle } from './lineOfSight';
+import { dwellProbability, inViewCone } from './towerCamera';
+import { DEGRADED_CONFIDENCE } from './towerHealth';
+import type { Incident } from './engine';
+
+export interface TowerDetection {
+  towerId: string;
+  bearing: number;    // degrees from north, as measured
+  confidence: number; // 0-1, falls off toward the edge of the detection radius and when partly occluded
+  sigma: number;      // bearing standard deviation in degrees
+}
+
+export interface UncertaintyEllipse {
+  semiMajor: number;   // meters
+  semiMinor: number;   // meters
+  orientation: number; // compass heading of the major axis in degrees
+}
+
+export interface ThreatEstimate {
+  position: LatLng;
+  ellipse: UncertaintyEllipse;
+  detections: TowerDetection[];
+}
+
+// Bearing accuracy at close range by tower build (degrees)
+const BEARING_SIGMA: Record<SentryTower['type'], number> = {
+  elevated: 2,
+  standard: 4,
+  mobile: 6,
+};
+
+const EDGE_CONFIDENCE = 0.3;   // confidence at the detection radius
+const ELLIPSE_95 = 2.448;      // sqrt of the chi-square 95% quantile, 2 degrees of freedom
+const MIN_RANGE = 5;           // meters - keeps weights finite right under a tower
+const MIN_AXIS = 1;            // meters
+const MIN_CROSSING_ANGLE = 10; // degrees - shallower bearing crossings are too ill-conditioned to fix on
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+const toDeg = (rad: number) => rad * 180 / Math.PI;
+
+// Working towers whose detection radius contains the point
+export function towersInRange(towers: SentryTower[], point: LatLng): SentryTower[] {
+  return towers.filter(tower => tower.status !== 'offline' && distanceMeters(tower.position, point) <= tower.detectionRadius);
+}
+
+// A tower camera looking at the threat may pick it up this step and measure a noisy bearing.
+// Only targets inside the current view cone can be seen; buildings hiding the target completely
+// suppress the detection and partial cover lowers confidence, so it also takes longer to spot.
+export function senseThreat(
+  tower: SentryTower,
+  point: LatLng,
+  rng: Rng,
+  dt: number,
+  obstacles: SightObstacle[] = [],
+): TowerDetection | null {
+  if (!inViewCone(tower, point)) return null;
+  const visibility = towerVisibility(tower, point, obstacles);
+  if (visibility === 0) return null;
+  const range = 1 - (1 - EDGE_CONFIDENCE) * (distanceMeters(tower.position, point) / tower.detectionRadius);
+  const confidence = range * visibility * (tower.health === 'degraded' ? DEGRADED_CONFIDENCE : 1);
+  if (rng.next() >= dwellProbability(confidence, dt)) return null;
+  const sigma = BEARING_SIGMA[tower.type] / confidence;
+  return {
+    towerId: tower.id,
+    bearing: headingTo(tower.position, point) + rng.normal() * sigma,
+    confidence,
+    sigma,
+  };
+}
+
+// Unit vector along a compass bearing in local coordinates (x east, y north)
+function bearingVector(bearing: number): Point {
+  return { x: Math.sin(toRad(bearing)), y: Math.cos(toRad(bearing)) };
+}
+
+// A lone bearing fixes direction but not range - place the threat halfway out along it
+function singleBearingEstimate(tower: SentryTower, detection: TowerDetection): ThreatEstimate {
+  const half = tower.detectionRadius / 2;
+  const origin = toLocal(tower.position);
+  const d = bearingVector(detection.bearing);
+  return {
+    position: fromLocal({ x: origin.x + d.x * half, y: origin.y + d.y * half }),
+    ellipse: {
+      semiMajor: half,
+      semiMinor: Math.max(MIN_AXIS, half * Math.sin(toRad(ELLIPSE_95 * detection.sigma))),
+      orientation: detection.bearing,
+    },
+    detections: [detection],
+  };
+}
+
+// Smallest eigenvalue over largest allowed for the normal matrix - two equally weighted
+// bearings crossing at angle t give tan(t/2)^2
+const MIN_CONDITIONING = Math.tan(toRad(MIN_CROSSING_ANGLE / 2)) ** 2;
+
+// A fix has to be where every reporting tower could have seen it - ahead along its bearing,
+// not behind the tower, and inside its detection radius
+function plausibleFix(point: Point, reports: { detection: TowerDetection; tower: SentryTower }[]): boolean {
+  return reports.every(({ detection, tower }) => {
+    const p = toLocal(tower.position);
+    const d = bearingVector(detection.bearing);
+    const ahead = (point.x - p.x) * d.x + (point.y - p.y) * d.y;
+    return ahead > 0 && Math.hypot(point.x - p.x, point.y - p.y) <= tower.detectionRadius;
+  });
+}
+
+// Weighted least-squares intersection of bearing lines. Each line's weight is the inverse
+// variance of the cross-bearing miss distance, which grows with range - so the solve runs
+// twice, first with mid-radius ranges and then with ranges to the first estimate. Bearings
+// that barely cross, or meet somewhere no reporting tower could see, fall back to the
+// strongest single bearing.
+export function fuseDetections(towers: SentryTower[], detections: TowerDetection[]): ThreatEstimate | null {
+  const reports = detections
+    .map(detection => ({ detection, tower: towers.find(t => t.id === detection.towerId) }))
+    .filter((r): r is { detection: TowerDetection; tower: SentryTower } => r.tower !== undefined);
+  if (reports.length === 0) return null;
+
+  const strongest = reports.reduce((best, r) => (r.detection.confidence > best.detection.confidence ? r : best));
+  if (reports.length === 1) return singleBearingEstimate(strongest.tower, strongest.detection);
+
+  let ranges = reports.map(r => r.tower.detectionRadius / 2);
+  let solution: { point: Point; a: number; b: number; c: number } | null = null;
+
+  for (let pass = 0; pass < 2; pass++) {
+    // Normal equations for lines n·x = n·p, n perpendicular to each bearing
+    let a = 0, b = 0, c = 0, bx = 0, by = 0;
+    reports.forEach(({ detection, tower }, i) => {
+      const d = bearingVector(detection.bearing);
+      const n = { x: -d.y, y: d.x };
+      const p = toLocal(tower.position);
+      const w = 1 / (toRad(detection.sigma) * ranges[i]) ** 2;
+      const np = n.x * p.x + n.y * p.y;
+      a += w * n.x * n.x;
+      b += w * n.x * n.y;
+      c += w * n.y * n.y;
+      bx += w * n.x * np;
+      by += w * n.y * np;
+    });
+
+    // Near-parallel bearings don't intersect usefully
+    const mean = (a + c) / 2;
+    const spread = Math.sqrt(((a - c) / 2) ** 2 + b * b);
+    if (mean - spread < MIN_CONDITIONING * (mean + spread)) {
+      solution = null;
+      break;
+    }
+
+    const det = a * c - b * b;
+    const point = { x: (c * bx - b * by) / det, y: (a * by - b * bx) / det };
+    if (!plausibleFix(point, reports)) {
+      solution = null;
+      break;
+    }
+    solution = { point, a, b, c };
+    const estimate = fromLocal(point);
+    ranges = reports.map(r => Math.max(MIN_RANGE, distanceMeters(r.tower.position, estimate)));
+  }
+
+  if (!solution) return singleBearingEstimate(strongest.tower, strongest.detection);
+
+  // Covariance is the inverse of the normal matrix; its eigenvectors are the ellipse axes
+  const { point, a, b, c } = solution;
+  const det = a * c - b * b;
+  const [sxx, sxy, syy] = [c / det, -b / det, a / det];
+  const mean = (sxx + syy) / 2;
+  const spread = Math.sqrt(((sxx - syy) / 2) ** 2 + sxy ** 2);
+  const angleFromEast = toDeg(Math.atan2(2 * sxy, sxx - syy) / 2);
+
+  return {
+    position: fromLocal(point),
+    ellipse: {
+      semiMajor: Math.max(MIN_AXIS, ELLIPSE_95 * Math.sqrt(mean + spread)),
+      semiMinor: Math.max(MIN_AXIS, ELLIPSE_95 * Math.sqrt(Math.max(0, mean - spread))),
+      orientation: 90 - angleFromEast,
+    },
+    detections: reports.map(r => r.detection),
+  };
+}
+
+// Where drones are sent - the fused tower fix when there is one, else the reported alert point
+export function incidentTarget(incident: Incident): LatLng {
+  return incident.estimate?.position ?? incident.alert;
+}
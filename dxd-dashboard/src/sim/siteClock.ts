@@ -0,0 +1,13 @@
+// Site wall clock - time-of-day rules run on the site's own UTC offset rather than the
+// viewer's timezone, so a session scores and replays the same on any machine
+
+// Tempe, Arizona - UTC-7 all year, no daylight saving
+export const DEFAULT_SITE_UTC_OFFSET = -7 * 60; // minutes
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Minutes past midnight on the site's clock
+export function siteMinuteOfDay(date: Date, utcOffset: number): number {
+  const minute = Math.floor(date.getTime() / 60000) + utcOffset;
+  return ((minute % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
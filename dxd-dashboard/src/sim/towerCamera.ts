@@ -0,0 +1,94 @@
+// Sentry tower pan-tilt cameras - each camera sees a cone of its field of view out to its range
+// and sweeps it across its pan range, or holds on a point the operator locked it onto.
+// Anything outside the current cone is a blind spot until the sweep comes back around.
+
+import type { SentryTower } from '../data/sentryTowers';
+import { distanceMeters, headingTo } from './geo';
+import type { LatLng } from './geo';
+
+// Seconds a fully visible target must stay in view for a 63% chance of being picked up
+const DWELL_TIME = 1;
+
+// Signed difference a - b in degrees, in [-180, 180)
+export function angleDiff(a: number, b: number): number {
+  return ((a - b + 540) % 360) - 180;
+}
+
+function normalize(heading: number): number {
+  return ((heading % 360) + 360) % 360;
+}
+
+function rotatesFully(tower: SentryTower): boolean {
+  return tower.panRange >= 360;
+}
+
+// Nearest heading the camera can physically point at
+function clampToPanRange(tower: SentryTower, heading: number): number {
+  if (rotatesFully(tower)) return normalize(heading);
+  const half = tower.panRange / 2;
+  const offset = Math.max(-half, Math.min(half, angleDiff(heading, tower.panCenter)));
+  return normalize(tower.panCenter + offset);
+}
+
+// Pan the camera by dt seconds - toward its lock point, or back and forth across its range
+export function advanceCamera(tower: SentryTower, dt: number): SentryTower {
+  if (tower.status === 'offline') return tower;
+  const step = tower.sweepRate * dt;
+
+  if (tower.panLock) {
+    const goal = clampToPanRange(tower, headingTo(tower.position, tower.panLock));
+    // Limited-range cameras can't turn through the dead zone behind them
+    const turn = rotatesFully(tower)
+      ? angleDiff(goal, tower.pan)
+      : angleDiff(goal, tower.panCenter) - angleDiff(tower.pan, tower.panCenter);
+    if (turn === 0) return tower;
+    return { ...tower, pan: normalize(tower.pan + Math.sign(turn) * Math.min(Math.abs(turn), step)) };
+  }
+
+  if (rotatesFully(tower)) {
+    return { ...tower, pan: normalize(tower.pan + tower.sweepDirection * step) };
+  }
+
+  // Bounce off the ends of the pan range
+  const half = tower.panRange / 2;
+  let offset = angleDiff(tower.pan, tower.panCenter) + tower.sweepDirection * step;
+  let sweepDirection = tower.sweepDirection;
+  if (offset > half) {
+    offset = 2 * half - offset;
+    sweepDirection = -1;
+  } else if (offset < -half) {
+    offset = -2 * half - offset;
+    sweepDirection = 1;
+  }
+  return { ...tower, pan: normalize(tower.panCenter + offset), sweepDirection };
+}
+
+// Whether the point is inside the camera's current view cone
+export function inViewCone(tower: SentryTower, point: LatLng): boolean {
+  if (tower.status === 'offline' || distanceMeters(tower.position, point) > tower.detectionRadius) return false;
+  return Math.abs(angleDiff(headingTo(tower.position, point), tower.pan)) <= tower.fov / 2;
+}
+
+// Whether any point of the pan sweep brings the point into view - ignoring buildings
+export function withinPanReach(tower: SentryTower, point: LatLng): boolean {
+  if (tower.status === 'offline' || distanceMeters(tower.position, point) > tower.detectionRadius) return false;
+  if (rotatesFully(tower)) return true;
+  return Math.abs(angleDiff(headingTo(tower.position, point), tower.panCenter)) <= (tower.panRange + tower.fov) / 2;
+}
+
+// Chance of picking up a target that spends dt seconds in view at the given confidence
+export function dwellProbability(confidence: number, dt: number): number {
+  return 1 - Math.exp(-confidence * dt / DWELL_TIME);
+}
+
+// The part of the tower's viewshed inside its current view cone, as a polygon from the tower.
+// The viewshed's rays are evenly spaced clockwise from north.
+export function viewCone(tower: SentryTower, viewshed: LatLng[]): LatLng[] {
+  const step = 360 / viewshed.length;
+  const inside = viewshed
+    .map((point, i) => ({ point, offset: angleDiff(i * step, tower.pan) }))
+    .filter(ray => Math.abs(ray.offset) <= tower.fov / 2)
+    .sort((a, b) => a.offset - b.offset)
+    .map(ray => ray.point);
+  return inside.length > 0 ? [tower.position, ...inside] : [];
+}
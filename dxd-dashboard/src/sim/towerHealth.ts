@@ -0,0 +1,83 @@
+// Sentry tower health - towers fail, degrade and go down for maintenance. The operator only
+// learns of a hard failure when heartbeats stop arriving, so a tower can be blind for a while
+// before it shows offline. Degraded cameras report themselves and see less well.
+
+import { maintenanceWindows } from '../data/sentryTowers';
+import type { SentryTower } from '../data/sentryTowers';
+import type { Rng } from './rng';
+import { siteMinuteOfDay } from './siteClock';
+
+export type TowerHealth = SentryTower['health'];
+
+// What is actually wrong with the hardware, whether or not anyone knows yet
+export interface TowerFault {
+  kind: 'degraded' | 'failed';
+  until: number; // sim time it's repaired
+}
+
+export interface TowerHealthState {
+  fault: TowerFault | null;
+  lastHeartbeat: number; // sim time
+  maintenance: boolean;  // put into maintenance by an operator, outside any scheduled window
+}
+
+export const HEARTBEAT_INTERVAL = 5; // seconds between heartbeats from a working tower
+export const HEARTBEAT_TIMEOUT = 15; // seconds of silence before a tower is marked offline
+
+const MEAN_TIME_BETWEEN_FAULTS = 20 * 60; // seconds, per tower
+const DEGRADED_SHARE = 0.6;               // of faults - the rest are hard failures
+const DEGRADED_DURATION = [60, 240];      // seconds, min and max
+const FAILED_DURATION = [120, 480];
+
+// Detection confidence multiplier for a degraded camera
+export const DEGRADED_CONFIDENCE = 0.5;
+
+export const towerHealthLabels: Record<TowerHealth, string> = {
+  online: 'Online',
+  degraded: 'Degraded',
+  offline: 'Offline',
+  maintenance: 'Maintenance',
+};
+
+export const towerHealthColors: Record<TowerHealth, string> = {
+  online: '#22c55e',      // green
+  degraded: '#f59e0b',    // amber
+  offline: '#6b7280',     // gray
+  maintenance: '#3b82f6', // blue
+};
+
+export function initialTowerHealth(time: number): TowerHealthState {
+  return { fault: null, lastHeartbeat: time, maintenance: false };
+}
+
+// Whether a daily maintenance window covers a time, on the site's clock
+export function inMaintenanceWindow(towerId: string, date: Date, utcOffset: number): boolean {
+  const minute = siteMinuteOfDay(date, utcOffset);
+  return maintenanceWindows.some(window => {
+    if (window.towerId !== towerId) return false;
+    const [hours, minutes] = window.start.split(':').map(Number);
+    const start = hours * 60 + minutes;
+    // Windows may run past midnight
+    return (minute - start + 24 * 60) % (24 * 60) < window.minutes;
+  });
+}
+
+// A new fault striking during a step of dt seconds, if any
+export function rollFault(rng: Rng, time: number, dt: number): TowerFault | null {
+  if (rng.next() >= dt / MEAN_TIME_BETWEEN_FAULTS) return null;
+  const kind = rng.next() < DEGRADED_SHARE ? 'degraded' : 'failed';
+  const [min, max] = kind === 'degraded' ? DEGRADED_DURATION : FAILED_DURATION;
+  return { kind, until: time + min + rng.next() * (max - min) };
+}
+
+// Whether the camera is actually working - a failed tower is blind before it's known offline
+export function canSense(tower: SentryTower, health: TowerHealthState | undefined): boolean {
+  return tower.health !== 'maintenance' && tower.health !== 'offline' && health?.fault?.kind !== 'failed';
+}
+
+// Health as the operator sees it
+export function reportedHealth(health: TowerHealthState, time: number, scheduledMaintenance: boolean): TowerHealth {
+  if (health.maintenance || scheduledMaintenance) return 'maintenance';
+  if (time - health.lastHeartbeat > HEARTBEAT_TIMEOUT) return 'offline';
+  return health.fault?.kind === 'degraded' ? 'degraded' : 'online';
+}
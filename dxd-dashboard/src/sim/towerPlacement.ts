@@ -0,0 +1,200 @@
+// Tower placement optimizer - proposes a tower layout for the perimeter within a budget.
+// Candidate sites sit on a coarse lattice over the coverage grid, away from buildings; each
+// site/type/pan option covers the grid cells it can sweep over in its viewshed. A lazy greedy
+// pass then picks the option adding the most uncovered value per budget unit until the budget
+// is spent - the classic max-coverage heuristic, within 1 - 1/e of optimal for unit costs.
+
+import { towerTypeSpecs } from '../data/sentryTowers';
+import type { SentryTower } from '../data/sentryTowers';
+import type { ZoneType } from '../data/geofences';
+import { distanceMeters, toLocal } from './geo';
+import type { LatLng, Point } from './geo';
+import { pointInPolygon } from './geometry';
+import { zonesAt } from './geofence';
+import { insideObstacle, viewshed } from './lineOfSight';
+import type { SightObstacle } from './lineOfSight';
+import { towerCoverage } from './coverage';
+import type { CoverageGrid } from './coverage';
+import { withinPanReach } from './towerCamera';
+
+// What a layout is scored on - plain covered area, or area weighted toward critical zones
+export type PlacementGoal = 'area' | 'critical';
+
+export interface PlacementOptions {
+  budget: number;               // budget units - see towerTypeSpecs costs
+  types: SentryTower['type'][]; // tower builds allowed
+  goal: PlacementGoal;
+}
+
+export interface LayoutScore {
+  covered: number; // percent of cells
+  weighted: number; // percent of the goal-weighted cell value
+}
+
+export interface PlacementProposal {
+  towers: SentryTower[];
+  cost: number;
+  score: LayoutScore;
+}
+
+// Cell value for the critical goal - the most critical zone a cell falls in counts
+const zoneWeights: Record<ZoneType, number> = {
+  perimeter: 1,
+  restricted: 4,
+  no_fly: 3,
+  privacy: 1,
+};
+
+const CANDIDATE_STEP = 4;     // every 4th grid cell each way - 100 m spacing on the default grid
+const PAN_HEADINGS = 8;       // pan centers tried for towers that can't rotate fully
+
+function cellWeights(grid: CoverageGrid, goal: PlacementGoal): number[] {
+  if (goal === 'area') return grid.cells.map(() => 1);
+  return grid.cells.map(cell => Math.max(1, ...zonesAt(cell.center).map(zone => zoneWeights[zone.type])));
+}
+
+export function scoreLayout(
+  grid: CoverageGrid,
+  towers: SentryTower[],
+  obstacles: SightObstacle[],
+  goal: PlacementGoal,
+): LayoutScore {
+  const viewsheds = Object.fromEntries(towers.map(tower => [tower.id, viewshed(tower, obstacles)]));
+  const counts = towerCoverage(grid, towers, viewsheds);
+  const weights = cellWeights(grid, goal);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const value = weights.reduce((sum, w, i) => sum + (counts[i] > 0 ? w : 0), 0);
+  return {
+    covered: counts.length > 0 ? (counts.filter(count => count > 0).length / counts.length) * 100 : 0,
+    weighted: total > 0 ? (value / total) * 100 : 0,
+  };
+}
+
+// A new tower of the given build at a site
+export function newTower(id: string, name: string, position: LatLng, type: SentryTower['type'], panCenter: number = 0): SentryTower {
+  const { detectionRadius, fov, panRange, sweepRate } = towerTypeSpecs[type];
+  return {
+    id,
+    name,
+    position,
+    type,
+    detectionRadius,
+    fov,
+    panRange,
+    sweepRate,
+    status: 'active',
+    health: 'online',
+    panCenter,
+    pan: panCenter,
+    sweepDirection: 1,
+    panLock: null,
+  };
+}
+
+interface PlacementOption {
+  tower: SentryTower;
+  site: number;   // candidate site index - one tower per site
+  cost: number;
+  cells: number[]; // grid cell indices it can watch
+  bound: number;  // last known gain per cost - only ever falls as cells get covered
+}
+
+function insideBuilding(obstacles: SightObstacle[], p: Point): boolean {
+  return obstacles.some(o => insideObstacle(o, p));
+}
+
+// Every site/type/pan choice with the cells it can watch
+function placementOptions(grid: CoverageGrid, obstacles: SightObstacle[], types: SentryTower['type'][]): PlacementOption[] {
+  const sites = grid.cells
+    .filter(cell => cell.row % CANDIDATE_STEP === 0 && cell.col % CANDIDATE_STEP === 0)
+    .filter(cell => !insideBuilding(obstacles, toLocal(cell.center)))
+    .map(cell => cell.center);
+  const points = grid.cells.map(cell => toLocal(cell.center));
+
+  const options: PlacementOption[] = [];
+  sites.forEach((site, siteIndex) => {
+    for (const type of types) {
+      const probe = newTower('probe', 'probe', site, type);
+      const shed = viewshed(probe, obstacles).map(p => toLocal(p));
+      const visible: number[] = [];
+      grid.cells.forEach((cell, i) => {
+        if (distanceMeters(site, cell.center) <= probe.detectionRadius && pointInPolygon(points[i], shed)) {
+          visible.push(i);
+        }
+      });
+
+      const rotates = probe.panRange >= 360;
+      const headings = rotates ? [0] : Array.from({ length: PAN_HEADINGS }, (_, k) => (k * 360) / PAN_HEADINGS);
+      for (const heading of headings) {
+        const tower = { ...probe, panCenter: heading, pan: heading };
+        options.push({
+          tower,
+          site: siteIndex,
+          cost: towerTypeSpecs[type].cost,
+          cells: rotates ? visible : visible.filter(i => withinPanReach(tower, grid.cells[i].center)),
+          bound: Infinity,
+        });
+      }
+    }
+  });
+  return options;
+}
+
+export function optimizePlacement(
+  grid: CoverageGrid,
+  obstacles: SightObstacle[],
+  { budget, types, goal }: PlacementOptions,
+): PlacementProposal {
+  const weights = cellWeights(grid, goal);
+  const covered = new Uint8Array(grid.cells.length);
+  const usedSites = new Set<number>();
+  const gain = (option: PlacementOption) =>
+    option.cells.reduce((sum, i) => sum + (covered[i] ? 0 : weights[i]), 0);
+
+  let options = placementOptions(grid, obstacles, types);
+  const chosen: SentryTower[] = [];
+  let remaining = budget;
+
+  while (remaining > 0) {
+    options = options.filter(o => o.cost <= remaining && !usedSites.has(o.site));
+    if (options.length === 0) break;
+
+    // Lazy greedy - gains only shrink, so stop re-evaluating once the best fresh ratio
+    // beats every remaining stale bound
+    options.sort((a, b) => b.bound - a.bound);
+    let best: PlacementOption | null = null;
+    let bestRatio = 0;
+    for (const option of options) {
+      if (option.bound <= bestRatio) break;
+      option.bound = gain(option) / option.cost;
+      if (option.bound > bestRatio) {
+        best = option;
+        bestRatio = option.bound;
+      }
+    }
+    if (!best) break;
+
+    best.cells.forEach(i => { covered[i] = 1; });
+    usedSites.add(best.site);
+    remaining -= best.cost;
+    const n = chosen.length + 1;
+    chosen.push({ ...best.tower, id: `ST-P${String(n).padStart(2, '0')}`, name: `Proposed ${n}` });
+  }
+
+  return {
+    towers: chosen,
+    cost: budget - remaining,
+    score: scoreLayout(grid, chosen, obstacles, goal),
+  };
+}
+
+// Whether two tower sets are the same installations - camera pan and status aside
+export function sameTowerLayout(a: SentryTower[], b: SentryTower[]): boolean {
+  return a.length === b.length && a.every((tower, i) =>
+    tower.id === b[i].id &&
+    tower.type === b[i].type &&
+    tower.panCenter === b[i].panCenter &&
+    tower.position.lat === b[i].position.lat &&
+    tower.position.lng === b[i].position.lng
+  );
+}
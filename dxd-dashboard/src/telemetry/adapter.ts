@@ -0,0 +1,87 @@
+// Telemetry adapter - folds live telemetry messages into the dashboard's Drone model
+
+import type { Drone } from '../data/mockData';
+import type { TelemetryMessage } from './protocol';
+
+// Live aircraft keyed by drone id, with the time each was last heard from
+export interface LiveFleet {
+  drones: Record<string, Drone>;
+  lastSeen: Record<string, number>; // epoch ms on this machine's clock, when last received
+}
+
+export const emptyFleet: LiveFleet = { drones: {}, lastSeen: {} };
+
+// Placeholder for an aircraft seen for the first time - filled in as messages arrive
+function newDrone(droneId: string): Drone {
+  return {
+    id: droneId,
+    name: droneId,
+    lat: 0,
+    lng: 0,
+    altitude: 0,
+    status: 'idle',
+    battery: 0,
+    speed: 0,
+    heading: 0,
+    sector: 'Unknown',
+  };
+}
+
+function applyMessage(drone: Drone, message: TelemetryMessage): Drone {
+  switch (message.type) {
+    case 'position':
+      return {
+        ...drone,
+        lat: message.lat,
+        lng: message.lng,
+        altitude: message.alt,
+        speed: message.groundSpeed * 3.6, // m/s to km/h
+      };
+    case 'attitude':
+      return { ...drone, heading: message.yaw };
+    case 'battery':
+      return { ...drone, battery: Math.max(0, Math.min(100, message.percent)) };
+    case 'status':
+      return {
+        ...drone,
+        status: message.status,
+        name: message.name ?? drone.name,
+        sector: message.sector ?? drone.sector,
+      };
+  }
+}
+
+// Apply a batch of messages received at `receivedAt`, in arrival order
+export function applyTelemetry(fleet: LiveFleet, messages: TelemetryMessage[], receivedAt: number): LiveFleet {
+  if (messages.length === 0) return fleet;
+
+  const drones = { ...fleet.drones };
+  const lastSeen = { ...fleet.lastSeen };
+  for (const message of messages) {
+    drones[message.droneId] = applyMessage(drones[message.droneId] ?? newDrone(message.droneId), message);
+    lastSeen[message.droneId] = receivedAt;
+  }
+  return { drones, lastSeen };
+}
+
+// Drop aircraft not heard from since `cutoff`, so one whose feed stopped leaves the map and
+// can't be dispatched. It comes back with its next message. Same fleet if none expired.
+export function expireFleet(fleet: LiveFleet, cutoff: number): LiveFleet {
+  const stale = Object.keys(fleet.lastSeen).filter(id => fleet.lastSeen[id] < cutoff);
+  if (stale.length === 0) return fleet;
+
+  const drones = { ...fleet.drones };
+  const lastSeen = { ...fleet.lastSeen };
+  for (const id of stale) {
+    delete drones[id];
+    delete lastSeen[id];
+  }
+  return { drones, lastSeen };
+}
+
+// Aircraft with a known position, sorted by id for a stable fleet list
+export function fleetDrones(fleet: LiveFleet): Drone[] {
+  return Object.values(fleet.drones)
+    .filter(d => d.lat !== 0 || d.lng !== 0)
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
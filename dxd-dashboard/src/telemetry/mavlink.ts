@@ -0,0 +1,292 @@
+// MAVLink decoder - turns raw MAVLink v2 (and v1) frames into the dashboard's telemetry messages.
+// Only the messages needed for drone state are decoded: HEARTBEAT, SYS_STATUS, GLOBAL_POSITION_INT,
+// MISSION_CURRENT, VFR_HUD and BATTERY_STATUS. Frames of any other message are skipped.
+
+import type { Drone } from '../data/mockData';
+import type { TelemetryMessage } from './protocol';
+
+const MAGIC_V1 = 0xfe;
+const MAGIC_V2 = 0xfd;
+const INCOMPAT_SIGNED = 0x01;
+const SIGNATURE_LENGTH = 13;
+
+export const MSG_HEARTBEAT = 0;
+export const MSG_SYS_STATUS = 1;
+export const MSG_GLOBAL_POSITION_INT = 33;
+export const MSG_MISSION_CURRENT = 42;
+export const MSG_VFR_HUD = 74;
+export const MSG_BATTERY_STATUS = 147;
+
+// Per-message CRC seed and full (untruncated) payload length
+const MESSAGE_SPECS: Record<number, { crcExtra: number; length: number }> = {
+  [MSG_HEARTBEAT]: { crcExtra: 50, length: 9 },
+  [MSG_SYS_STATUS]: { crcExtra: 124, length: 31 },
+  [MSG_GLOBAL_POSITION_INT]: { crcExtra: 104, length: 28 },
+  [MSG_MISSION_CURRENT]: { crcExtra: 28, length: 2 },
+  [MSG_VFR_HUD]: { crcExtra: 20, length: 20 },
+  [MSG_BATTERY_STATUS]: { crcExtra: 154, length: 36 },
+};
+
+export interface Heartbeat {
+  msgId: typeof MSG_HEARTBEAT;
+  customMode: number;
+  type: number;
+  autopilot: number;
+  baseMode: number;
+  systemStatus: number;
+}
+
+export interface SysStatus {
+  msgId: typeof MSG_SYS_STATUS;
+  voltage: number;          // volts
+  batteryRemaining: number; // percent, -1 when unknown
+}
+
+export interface GlobalPositionInt {
+  msgId: typeof MSG_GLOBAL_POSITION_INT;
+  lat: number;         // degrees
+  lng: number;         // degrees
+  relativeAlt: number; // meters above home
+  groundSpeed: number; // m/s from vx, vy
+  heading: number | null; // degrees, null when unknown
+}
+
+export interface MissionCurrent {
+  msgId: typeof MSG_MISSION_CURRENT;
+  seq: number;
+}
+
+export interface VfrHud {
+  msgId: typeof MSG_VFR_HUD;
+  groundSpeed: number; // m/s
+  heading: number;     // degrees
+  alt: number;         // meters MSL
+}
+
+export interface BatteryStatus {
+  msgId: typeof MSG_BATTERY_STATUS;
+  batteryRemaining: number; // percent, -1 when unknown
+}
+
+export type MavlinkMessage = Heartbeat | SysStatus | GlobalPositionInt | MissionCurrent | VfrHud | BatteryStatus;
+
+export interface MavlinkFrame {
+  sysId: number;
+  compId: number;
+  message: MavlinkMessage;
+}
+
+// CRC-16/MCRF4XX (X.25) accumulate
+function crcAccumulate(byte: number, crc: number): number {
+  let tmp = byte ^ (crc & 0xff);
+  tmp = (tmp ^ (tmp << 4)) & 0xff;
+  return ((crc >> 8) ^ (tmp << 8) ^ (tmp << 3) ^ (tmp >> 4)) & 0xffff;
+}
+
+function frameCrc(bytes: Uint8Array, start: number, end: number, crcExtra: number): number {
+  let crc = 0xffff;
+  for (let i = start; i < end; i++) crc = crcAccumulate(bytes[i], crc);
+  return crcAccumulate(crcExtra, crc);
+}
+
+// Decode a payload; v2 trims trailing zero bytes, so it is zero-padded back to full length first
+function decodePayload(msgId: number, payload: Uint8Array): MavlinkMessage | null {
+  const spec = MESSAGE_SPECS[msgId];
+  if (!spec) return null;
+  const padded = new Uint8Array(Math.max(spec.length, payload.length));
+  padded.set(payload);
+  const view = new DataView(padded.buffer);
+
+  switch (msgId) {
+    case MSG_HEARTBEAT:
+      return {
+        msgId,
+        customMode: view.getUint32(0, true),
+        type: view.getUint8(4),
+        autopilot: view.getUint8(5),
+        baseMode: view.getUint8(6),
+        systemStatus: view.getUint8(7),
+      };
+    case MSG_SYS_STATUS:
+      return {
+        msgId,
+        voltage: view.getUint16(14, true) / 1000,
+        batteryRemaining: view.getInt8(30),
+      };
+    case MSG_GLOBAL_POSITION_INT: {
+      const hdg = view.getUint16(26, true);
+      return {
+        msgId,
+        lat: view.getInt32(4, true) / 1e7,
+        lng: view.getInt32(8, true) / 1e7,
+        relativeAlt: view.getInt32(16, true) / 1000,
+        groundSpeed: Math.hypot(view.getInt16(20, true), view.getInt16(22, true)) / 100,
+        heading: hdg === 0xffff ? null : hdg / 100,
+      };
+    }
+    case MSG_MISSION_CURRENT:
+      return { msgId, seq: view.getUint16(0, true) };
+    case MSG_VFR_HUD:
+      return {
+        msgId,
+        groundSpeed: view.getFloat32(4, true),
+        alt: view.getFloat32(8, true),
+        heading: view.getInt16(16, true),
+      };
+    case MSG_BATTERY_STATUS:
+      return { msgId, batteryRemaining: view.getInt8(35) };
+    default:
+      return null;
+  }
+}
+
+// Streaming frame parser - feed it bytes as they arrive; partial frames are kept for the next chunk
+export class MavlinkParser {
+  private buffer = new Uint8Array(0);
+  crcErrors = 0;
+
+  push(chunk: Uint8Array): MavlinkFrame[] {
+    const merged = new Uint8Array(this.buffer.length + chunk.length);
+    merged.set(this.buffer);
+    merged.set(chunk, this.buffer.length);
+
+    const frames: MavlinkFrame[] = [];
+    let offset = 0;
+
+    while (offset < merged.length) {
+      const magic = merged[offset];
+      if (magic !== MAGIC_V1 && magic !== MAGIC_V2) {
+        offset++;
+        continue;
+      }
+
+      const headerLength = magic === MAGIC_V2 ? 10 : 6;
+      if (merged.length - offset < headerLength) break;
+
+      const payloadLength = merged[offset + 1];
+      const signed = magic === MAGIC_V2 && (merged[offset + 2] & INCOMPAT_SIGNED) !== 0;
+      const frameLength = headerLength + payloadLength + 2 + (signed ? SIGNATURE_LENGTH : 0);
+      if (merged.length - offset < frameLength) break;
+
+      const msgId = magic === MAGIC_V2
+        ? merged[offset + 7] | (merged[offset + 8] << 8) | (merged[offset + 9] << 16)
+        : merged[offset + 5];
+      const sysId = merged[offset + (magic === MAGIC_V2 ? 5 : 3)];
+      const compId = merged[offset + (magic === MAGIC_V2 ? 6 : 4)];
+      const payloadStart = offset + headerLength;
+      const payloadEnd = payloadStart + payloadLength;
+
+      const spec = MESSAGE_SPECS[msgId];
+      if (!spec) {
+        // Unknown message - can't verify its CRC, so trust the length and move on
+        offset += frameLength;
+        continue;
+      }
+
+      const crc = merged[payloadEnd] | (merged[payloadEnd + 1] << 8);
+      if (frameCrc(merged, offset + 1, payloadEnd, spec.crcExtra) !== crc) {
+        // Corrupt or a false start - resync from the next byte
+        this.crcErrors++;
+        offset++;
+        continue;
+      }
+
+      const message = decodePayload(msgId, merged.subarray(payloadStart, payloadEnd));
+      if (message) frames.push({ sysId, compId, message });
+      offset += frameLength;
+    }
+
+    this.buffer = merged.slice(offset);
+    return frames;
+  }
+}
+
+const MAV_MODE_FLAG_SAFETY_ARMED = 0x80;
+const MAV_AUTOPILOT_ARDUPILOTMEGA = 3;
+const MAV_AUTOPILOT_INVALID = 8; // ground stations, gimbals and other non-flight components
+const MAV_AUTOPILOT_PX4 = 12;
+
+// ArduCopter custom_mode numbers
+const ARDU_RETURN_MODES = new Set([6, 9, 21]); // RTL, LAND, SMART_RTL
+const ARDU_GUIDED = 4;
+
+// PX4 packs main mode in bits 16-23 and sub mode in bits 24-31
+const PX4_MAIN_AUTO = 4;
+const PX4_MAIN_OFFBOARD = 6;
+const PX4_SUB_RETURN_MODES = new Set([5, 6]); // AUTO_RTL, AUTO_LAND
+
+// Map a heartbeat's flight mode onto the dashboard's drone status
+export function flightModeStatus(heartbeat: Heartbeat): Drone['status'] {
+  if ((heartbeat.baseMode & MAV_MODE_FLAG_SAFETY_ARMED) === 0) return 'idle';
+
+  if (heartbeat.autopilot === MAV_AUTOPILOT_ARDUPILOTMEGA) {
+    if (ARDU_RETURN_MODES.has(heartbeat.customMode)) return 'returning';
+    if (heartbeat.customMode === ARDU_GUIDED) return 'responding';
+    return 'patrolling';
+  }
+
+  if (heartbeat.autopilot === MAV_AUTOPILOT_PX4) {
+    const mainMode = (heartbeat.customMode >> 16) & 0xff;
+    const subMode = (heartbeat.customMode >>> 24) & 0xff;
+    if (mainMode === PX4_MAIN_AUTO && PX4_SUB_RETURN_MODES.has(subMode)) return 'returning';
+    if (mainMode === PX4_MAIN_OFFBOARD) return 'responding';
+    return 'patrolling';
+  }
+
+  return 'patrolling';
+}
+
+// Drone id for a MAVLink system
+export function mavlinkDroneId(sysId: number): string {
+  return `MAV-${String(sysId).padStart(3, '0')}`;
+}
+
+// Translates decoded frames into telemetry messages. Stateful because MISSION_CURRENT
+// only carries the waypoint; it is reported with the vehicle's last known status.
+export function createMavlinkTranslator() {
+  const statuses: Record<string, Drone['status']> = {};
+
+  return (frame: MavlinkFrame, timestamp: number): TelemetryMessage[] => {
+    const droneId = mavlinkDroneId(frame.sysId);
+    const { message } = frame;
+
+    switch (message.msgId) {
+      case MSG_HEARTBEAT: {
+        if (message.autopilot === MAV_AUTOPILOT_INVALID) return [];
+        const status = flightModeStatus(message);
+        if (statuses[droneId] === status) return [];
+        statuses[droneId] = status;
+        return [{ type: 'status', droneId, timestamp, status }];
+      }
+      case MSG_GLOBAL_POSITION_INT: {
+        const position: TelemetryMessage = {
+          type: 'position',
+          droneId,
+          timestamp,
+          lat: message.lat,
+          lng: message.lng,
+          alt: message.relativeAlt,
+          groundSpeed: message.groundSpeed,
+        };
+        return message.heading === null
+          ? [position]
+          : [position, { type: 'attitude', droneId, timestamp, roll: 0, pitch: 0, yaw: message.heading }];
+      }
+      case MSG_VFR_HUD:
+        return [{ type: 'attitude', droneId, timestamp, roll: 0, pitch: 0, yaw: message.heading }];
+      case MSG_SYS_STATUS:
+      case MSG_BATTERY_STATUS:
+        return message.batteryRemaining < 0
+          ? []
+          : [{ type: 'battery', droneId, timestamp, percent: message.batteryRemaining }];
+      case MSG_MISSION_CURRENT:
+        return [{
+          type: 'status',
+          droneId,
+          timestamp,
+          status: statuses[droneId] ?? 'patrolling',
+          sector: `Waypoint ${message.seq}`,
+        }];
+    }
+  };
+}
@@ -0,0 +1,84 @@
+// Live telemetry wire format - one JSON object per WebSocket text frame.
+// server/mockTelemetryServer.js speaks the same protocol.
+
+import type { Drone } from '../data/mockData';
+
+export interface PositionMessage {
+  type: 'position';
+  droneId: string;
+  timestamp: number;   // epoch ms
+  lat: number;
+  lng: number;
+  alt: number;         // meters above ground
+  groundSpeed: number; // m/s
+}
+
+export interface AttitudeMessage {
+  type: 'attitude';
+  droneId: string;
+  timestamp: number;
+  roll: number;  // degrees
+  pitch: number; // degrees
+  yaw: number;   // degrees, 0 = north
+}
+
+export interface BatteryMessage {
+  type: 'battery';
+  droneId: string;
+  timestamp: number;
+  percent: number;
+}
+
+export interface StatusMessage {
+  type: 'status';
+  droneId: string;
+  timestamp: number;
+  status: Drone['status'];
+  name?: string;
+  sector?: string;
+}
+
+export type TelemetryMessage = PositionMessage | AttitudeMessage | BatteryMessage | StatusMessage;
+
+// Sent from the dashboard to the feed - a ground station bridge relays these to the aircraft
+export type FleetCommand =
+  | { type: 'dispatch'; droneId: string; lat: number; lng: number; alt: number }
+  | { type: 'return'; droneId: string };
+
+const DRONE_STATUSES: Drone['status'][] = ['patrolling', 'responding', 'idle', 'returning'];
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Validate a raw frame; malformed or unknown messages are dropped rather than thrown
+export function parseTelemetry(raw: string): TelemetryMessage | null {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (typeof data !== 'object' || data === null || typeof data.droneId !== 'string' || !isNumber(data.timestamp)) {
+    return null;
+  }
+
+  switch (data.type) {
+    case 'position':
+      return isNumber(data.lat) && isNumber(data.lng) && isNumber(data.alt) && isNumber(data.groundSpeed)
+        ? data as unknown as PositionMessage
+        : null;
+    case 'attitude':
+      return isNumber(data.roll) && isNumber(data.pitch) && isNumber(data.yaw)
+        ? data as unknown as AttitudeMessage
+        : null;
+    case 'battery':
+      return isNumber(data.percent) ? data as unknown as BatteryMessage : null;
+    case 'status':
+      return DRONE_STATUSES.includes(data.status as Drone['status'])
+        ? data as unknown as StatusMessage
+        : null;
+    default:
+      return null;
+  }
+}